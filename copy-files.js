@@ -1,6 +1,9 @@
 const fs = require('fs');
 const path = require('path');
 
+// Языки OCR, данные которых кладём в сборку
+const OCR_LANGUAGES = ['rus', 'eng'];
+
 function copyDir(src, dest) {
   fs.mkdirSync(dest, { recursive: true });
   const entries = fs.readdirSync(src, { withFileTypes: true });
@@ -17,5 +20,60 @@ function copyDir(src, dest) {
   }
 }
 
+// Worker и WASM ядро Tesseract (только LSTM сборки)
+function copyTesseract(dest) {
+  fs.mkdirSync(dest, { recursive: true });
+  fs.copyFileSync(
+    require.resolve('tesseract.js/dist/worker.min.js'),
+    path.join(dest, 'worker.min.js')
+  );
+
+  const coreDir = path.dirname(
+    require.resolve('tesseract.js-core/package.json')
+  );
+  for (const file of fs.readdirSync(coreDir)) {
+    if (file.endsWith('-lstm.wasm.js')) {
+      fs.copyFileSync(path.join(coreDir, file), path.join(dest, file));
+    }
+  }
+}
+
+// Языковые данные из пакетов @tesseract.js-data/*; список скопированных
+// языков пишем в languages.json — offscreen документ загружает только их
+function copyLanguageData(dest) {
+  fs.mkdirSync(dest, { recursive: true });
+  const copied = [];
+
+  for (const lang of OCR_LANGUAGES) {
+    const file = path.join(
+      'node_modules',
+      '@tesseract.js-data',
+      lang,
+      '4.0.0_best_int',
+      `${lang}.traineddata.gz`
+    );
+
+    if (!fs.existsSync(file)) {
+      console.warn(
+        `⚠ OCR data for "${lang}" not found, install @tesseract.js-data/${lang}`
+      );
+      continue;
+    }
+    fs.copyFileSync(file, path.join(dest, `${lang}.traineddata.gz`));
+    copied.push(lang);
+  }
+
+  if (copied.length === 0) {
+    throw new Error(
+      'No OCR language data found, install @tesseract.js-data/eng'
+    );
+  }
+  fs.writeFileSync(path.join(dest, 'languages.json'), JSON.stringify(copied));
+}
+
 copyDir('./public', './dist');
-console.log('✓ Public files copied to dist/');
\ No newline at end of file
+console.log('✓ Public files copied to dist/');
+
+copyTesseract('./dist/tesseract');
+copyLanguageData('./dist/tessdata');
+console.log('✓ OCR engine copied to dist/');
@@ -0,0 +1,54 @@
+import type { PageActivity, TabMessage } from './types.js';
+
+// Content script: запоминает последние действия пользователя на странице,
+// чтобы проверка не перезагрузила её посреди заполнения формы.
+// Без импортов значений — content script не может быть ES модулем
+
+// Действия пользователя; scroll не берём — его вызывают и скрипты страницы
+const ACTIVITY_EVENTS = [
+  'keydown',
+  'input',
+  'change',
+  'pointerdown',
+  'wheel',
+  'touchmove',
+];
+
+let lastActivity = 0;
+let lastEvent = '';
+
+for (const type of ACTIVITY_EVENTS) {
+  addEventListener(
+    type,
+    (event) => {
+      if (!event.isTrusted) return;
+      lastActivity = Date.now();
+      lastEvent = type;
+    },
+    { capture: true, passive: true }
+  );
+}
+
+// Фокус в поле ввода после действий пользователя (autofocus не считается)
+function isEditing(): boolean {
+  const element = document.activeElement;
+  if (!lastActivity || !document.hasFocus() || !element) return false;
+  return (
+    element instanceof HTMLInputElement ||
+    element instanceof HTMLTextAreaElement ||
+    element instanceof HTMLSelectElement ||
+    (element instanceof HTMLElement && element.isContentEditable)
+  );
+}
+
+chrome.runtime.onMessage.addListener(
+  (message: TabMessage, _sender, sendResponse) => {
+    if (message?.type !== 'GET_ACTIVITY') return;
+    const activity: PageActivity = {
+      lastActivity,
+      lastEvent,
+      editing: isEditing(),
+    };
+    sendResponse(activity);
+  }
+);
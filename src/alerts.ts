@@ -0,0 +1,73 @@
+import {
+  AlertAction,
+  AlertState,
+  ComparisonResult,
+  DetectionConfig,
+} from './types.js';
+
+// Переход состояния оповещений
+export interface AlertTransition {
+  state: AlertState;
+  action: AlertAction;
+}
+
+// Следующее состояние по результату проверки:
+// baseline/recovered → notified при изменении, notified → recovered при возврате
+export function nextAlertState(
+  state: AlertState,
+  comparison: ComparisonResult,
+  detection: DetectionConfig,
+  now: number
+): AlertTransition {
+  const percentage = comparison.changePercentage;
+
+  // Слоты: каждое появление новых слотов — отдельный alert,
+  // исчезновение слотов не оповещает
+  if (comparison.mode === 'slots') {
+    return comparison.hasChanged
+      ? {
+          state: { phase: 'notified', changedSince: now, lastAlertTime: now },
+          action: 'alert',
+        }
+      : { state, action: null };
+  }
+
+  if (!comparison.hasChanged) {
+    if (state.phase !== 'notified') {
+      return { state, action: null };
+    }
+    return {
+      state: { phase: 'recovered' },
+      action: detection.notifyRecovery ? 'recovered' : null,
+    };
+  }
+
+  // Первое изменение после эталона
+  if (state.phase !== 'notified') {
+    return {
+      state: {
+        phase: 'notified',
+        changedSince: now,
+        lastAlertTime: now,
+        lastAlertPercentage: percentage,
+      },
+      action: 'alert',
+    };
+  }
+
+  // Повтор: прошёл cooldown или процент заметно сдвинулся
+  const cooledDown =
+    now - (state.lastAlertTime || 0) >= detection.cooldownMinutes * 60_000;
+  const moved =
+    detection.rearmDelta > 0 &&
+    Math.abs(percentage - (state.lastAlertPercentage ?? 0)) >=
+      detection.rearmDelta;
+
+  if (!cooledDown && !moved) {
+    return { state, action: null };
+  }
+  return {
+    state: { ...state, lastAlertTime: now, lastAlertPercentage: percentage },
+    action: 'repeat',
+  };
+}
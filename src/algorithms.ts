@@ -0,0 +1,287 @@
+import { CompareAlgorithm, Rect } from './types.js';
+
+// Размер блока для структурного сравнения
+const SSIM_BLOCK_SIZE = 8;
+// Блок считается изменённым, если SSIM ниже порога
+const SSIM_CHANGED_BELOW = 0.95;
+// Размеры для перцептивного хеша
+const PHASH_SIZE = 32;
+const PHASH_BITS = 8;
+
+// Входные данные алгоритма сравнения
+export interface AlgorithmInput {
+  reference: ImageData;
+  current: ImageData;
+  area: Rect;
+  masks: Rect[];
+  tolerance: number; // допуск по каналу 0-255
+}
+
+// Результат алгоритма: процент изменений и «сырая» метрика
+export interface AlgorithmOutput {
+  changePercentage: number;
+  score: number;
+}
+
+// Карта пикселей под масками (1 — игнорировать)
+export function buildMaskMap(width: number, height: number, masks: Rect[]) {
+  const map = new Uint8Array(width * height);
+  for (const mask of masks) {
+    for (let y = mask.y; y < mask.y + mask.height; y++) {
+      map.fill(1, y * width + mask.x, y * width + mask.x + mask.width);
+    }
+  }
+  return map;
+}
+
+// Яркость пикселя (BT.601)
+function luma(data: Uint8ClampedArray, i: number): number {
+  return (
+    (data[i] ?? 0) * 0.299 +
+    (data[i + 1] ?? 0) * 0.587 +
+    (data[i + 2] ?? 0) * 0.114
+  );
+}
+
+// Перцептивная разница цветов в пространстве YIQ (как в pixelmatch)
+export function colorDelta(
+  a: Uint8ClampedArray,
+  b: Uint8ClampedArray,
+  i: number,
+  j: number
+): number {
+  const r1 = a[i] ?? 0;
+  const g1 = a[i + 1] ?? 0;
+  const b1 = a[i + 2] ?? 0;
+  const r2 = b[j] ?? 0;
+  const g2 = b[j + 1] ?? 0;
+  const b2 = b[j + 2] ?? 0;
+
+  const y =
+    (r1 - r2) * 0.29889531 + (g1 - g2) * 0.58662247 + (b1 - b2) * 0.11448223;
+  const iq =
+    (r1 - r2) * 0.59597799 - (g1 - g2) * 0.2741761 - (b1 - b2) * 0.32180189;
+  const q =
+    (r1 - r2) * 0.21147017 - (g1 - g2) * 0.52261711 + (b1 - b2) * 0.31114694;
+
+  return 0.5053 * y * y + 0.299 * iq * iq + 0.1957 * q * q;
+}
+
+// Похож ли пиксель на сглаживание краёв шрифта/линии:
+// среди соседей есть и более тёмный, и более светлый пиксель
+function isAntialiased(image: ImageData, x: number, y: number): boolean {
+  const { width, height, data } = image;
+  const center = luma(data, (y * width + x) * 4);
+  let darker = 0;
+  let brighter = 0;
+  let equal = 0;
+
+  for (let dy = -1; dy <= 1; dy++) {
+    for (let dx = -1; dx <= 1; dx++) {
+      if (dx === 0 && dy === 0) continue;
+      const nx = x + dx;
+      const ny = y + dy;
+      if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+
+      const delta = luma(data, (ny * width + nx) * 4) - center;
+      if (delta === 0) equal++;
+      else if (delta < 0) darker++;
+      else brighter++;
+    }
+  }
+
+  // Гладкий фон вокруг — это не сглаживание
+  if (equal > 2) return false;
+  return darker > 0 && brighter > 0;
+}
+
+// Максимальная YIQ разница для допуска по каналу 0-255
+export function maxColorDelta(tolerance: number): number {
+  return 35215 * (tolerance / 255) ** 2;
+}
+
+// Попиксельное сравнение с допуском и без учёта сглаживания
+export function pixelDiff(input: AlgorithmInput): AlgorithmOutput {
+  const { reference, current, area, tolerance } = input;
+  const maskMap = buildMaskMap(reference.width, reference.height, input.masks);
+  const maxDelta = maxColorDelta(tolerance);
+  let diffPixels = 0;
+  let comparedPixels = 0;
+
+  for (let y = area.y; y < area.y + area.height; y++) {
+    for (let x = area.x; x < area.x + area.width; x++) {
+      const pos = y * reference.width + x;
+      if (maskMap[pos]) continue;
+      comparedPixels++;
+
+      const i = pos * 4;
+      if (colorDelta(reference.data, current.data, i, i) <= maxDelta) {
+        continue;
+      }
+
+      // Сглаживание шрифтов и субпиксельный рендеринг не считаем
+      if (isAntialiased(reference, x, y) || isAntialiased(current, x, y)) {
+        continue;
+      }
+      diffPixels++;
+    }
+  }
+
+  const changePercentage =
+    comparedPixels > 0 ? (diffPixels / comparedPixels) * 100 : 0;
+  return { changePercentage, score: diffPixels };
+}
+
+// Структурное сравнение (SSIM) по блокам яркости
+export function structuralDiff(input: AlgorithmInput): AlgorithmOutput {
+  const { reference, current, area } = input;
+  const maskMap = buildMaskMap(reference.width, reference.height, input.masks);
+  const c1 = (0.01 * 255) ** 2;
+  const c2 = (0.03 * 255) ** 2;
+  let blocks = 0;
+  let changedBlocks = 0;
+  let ssimSum = 0;
+
+  for (let by = area.y; by < area.y + area.height; by += SSIM_BLOCK_SIZE) {
+    for (let bx = area.x; bx < area.x + area.width; bx += SSIM_BLOCK_SIZE) {
+      const maxY = Math.min(by + SSIM_BLOCK_SIZE, area.y + area.height);
+      const maxX = Math.min(bx + SSIM_BLOCK_SIZE, area.x + area.width);
+      let n = 0;
+      let sumA = 0;
+      let sumB = 0;
+      let sumAA = 0;
+      let sumBB = 0;
+      let sumAB = 0;
+
+      for (let y = by; y < maxY; y++) {
+        for (let x = bx; x < maxX; x++) {
+          const pos = y * reference.width + x;
+          if (maskMap[pos]) continue;
+          const a = luma(reference.data, pos * 4);
+          const b = luma(current.data, pos * 4);
+          n++;
+          sumA += a;
+          sumB += b;
+          sumAA += a * a;
+          sumBB += b * b;
+          sumAB += a * b;
+        }
+      }
+
+      // Блок полностью под маской
+      if (n === 0) continue;
+
+      const meanA = sumA / n;
+      const meanB = sumB / n;
+      const varA = sumAA / n - meanA * meanA;
+      const varB = sumBB / n - meanB * meanB;
+      const cov = sumAB / n - meanA * meanB;
+      const ssim =
+        ((2 * meanA * meanB + c1) * (2 * cov + c2)) /
+        ((meanA * meanA + meanB * meanB + c1) * (varA + varB + c2));
+
+      blocks++;
+      ssimSum += ssim;
+      if (ssim < SSIM_CHANGED_BELOW) changedBlocks++;
+    }
+  }
+
+  return {
+    changePercentage: blocks > 0 ? (changedBlocks / blocks) * 100 : 0,
+    score: blocks > 0 ? ssimSum / blocks : 1,
+  };
+}
+
+// Уменьшенная копия области в оттенках серого
+// (пиксели под масками берём из эталона, чтобы они не влияли на хеш)
+function downscaleGray(
+  image: ImageData,
+  fallback: ImageData,
+  maskMap: Uint8Array,
+  area: Rect,
+  size: number
+): Float64Array {
+  const result = new Float64Array(size * size);
+
+  for (let ty = 0; ty < size; ty++) {
+    for (let tx = 0; tx < size; tx++) {
+      const y0 = area.y + Math.floor((ty * area.height) / size);
+      const y1 = Math.max(
+        y0 + 1,
+        area.y + Math.floor(((ty + 1) * area.height) / size)
+      );
+      const x0 = area.x + Math.floor((tx * area.width) / size);
+      const x1 = Math.max(
+        x0 + 1,
+        area.x + Math.floor(((tx + 1) * area.width) / size)
+      );
+      let sum = 0;
+      let count = 0;
+
+      for (let y = y0; y < y1; y++) {
+        for (let x = x0; x < x1; x++) {
+          const pos = y * image.width + x;
+          const source = maskMap[pos] ? fallback : image;
+          sum += luma(source.data, pos * 4);
+          count++;
+        }
+      }
+      result[ty * size + tx] = count > 0 ? sum / count : 0;
+    }
+  }
+  return result;
+}
+
+// Перцептивный хеш: низкие частоты DCT относительно медианы
+function perceptualHash(pixels: Float64Array): boolean[] {
+  const coefficients: number[] = [];
+
+  for (let u = 0; u < PHASH_BITS; u++) {
+    for (let v = 0; v < PHASH_BITS; v++) {
+      let sum = 0;
+      for (let y = 0; y < PHASH_SIZE; y++) {
+        for (let x = 0; x < PHASH_SIZE; x++) {
+          sum +=
+            (pixels[y * PHASH_SIZE + x] ?? 0) *
+            Math.cos(((2 * x + 1) * v * Math.PI) / (2 * PHASH_SIZE)) *
+            Math.cos(((2 * y + 1) * u * Math.PI) / (2 * PHASH_SIZE));
+        }
+      }
+      coefficients.push(sum);
+    }
+  }
+
+  // Постоянную составляющую не учитываем в медиане
+  const sorted = coefficients.slice(1).sort((a, b) => a - b);
+  const median = sorted[Math.floor(sorted.length / 2)] ?? 0;
+  return coefficients.map((value) => value > median);
+}
+
+// Сравнение перцептивных хешей (расстояние Хэмминга)
+export function hashDiff(input: AlgorithmInput): AlgorithmOutput {
+  const { reference, current, area } = input;
+  const maskMap = buildMaskMap(reference.width, reference.height, input.masks);
+
+  const refHash = perceptualHash(
+    downscaleGray(reference, reference, maskMap, area, PHASH_SIZE)
+  );
+  const curHash = perceptualHash(
+    downscaleGray(current, reference, maskMap, area, PHASH_SIZE)
+  );
+
+  const distance = refHash.filter((bit, i) => bit !== curHash[i]).length;
+  return {
+    changePercentage: (distance / refHash.length) * 100,
+    score: distance,
+  };
+}
+
+// Реализации по названию алгоритма
+export const ALGORITHMS: Record<
+  CompareAlgorithm,
+  (input: AlgorithmInput) => AlgorithmOutput
+> = {
+  pixel: pixelDiff,
+  ssim: structuralDiff,
+  phash: hashDiff,
+};
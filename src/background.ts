@@ -2,43 +2,167 @@ import {
   MessageType,
   Message,
   MessageResponse,
-  StorageData,
   ReferenceSnapshot,
+  ReferencePreview,
   MonitoringConfig,
-  TelegramConfig,
   ComparisonResult,
+  NotificationChannel,
+  CalibrationPayload,
+  SettingsPayload,
+  CalibrationState,
+  ApplyCalibrationPayload,
+  CheckRecord,
+  CheckTimings,
+  ClearHistoryPayload,
+  DeliveryResult,
+  ChannelPayload,
+  ChannelIdPayload,
+  WatchChannelsPayload,
+  AreasPayload,
+  DetectionPayload,
+  Watch,
+  WatchPayload,
+  AddWatchPayload,
+  OutboxPayload,
+  CapturePayload,
+  ExportPayload,
+  ImportPayload,
+  BaselinePayload,
+  LearningPayload,
 } from './types.js';
+import {
+  canMonitor,
+  createAlertState,
+  createWatch,
+  getWatch,
+  getWatches,
+  toWatchStatus,
+  updateWatch,
+  updateWatches,
+} from './watches.js';
+import {
+  base64ToBlob,
+  calibrateScreenshot,
+  compareScreenshots,
+  evictReferences,
+  renderDiff,
+  scaleRect,
+} from './compare.js';
+import {
+  MAX_CALIBRATION_SAMPLES,
+  NoiseMap,
+  addNoiseSample,
+  createNoiseMap,
+  suggestMasks,
+  summarizeCalibration,
+} from './calibration.js';
+import {
+  MAX_BASELINES,
+  MAX_LEARNING_MINUTES,
+  addBaseline,
+  canAddBaseline,
+  removeBaseline,
+} from './baselines.js';
+import {
+  deleteWatchCaptures,
+  getCapture,
+  loadScreenshot,
+  pruneCaptures,
+  saveCapture,
+  setCaptureKind,
+} from './screenshotStore.js';
+import { TelegramPhoto } from './telegram.js';
+import {
+  deleteChannel,
+  getChannels,
+  recordDeliveries,
+  saveChannel,
+  validateChannel,
+} from './channels.js';
+import { Notification, notifyChannel } from './notifiers.js';
+import {
+  OUTBOX_ALARM,
+  deliver,
+  discardDelivery,
+  getOutboxStatus,
+  processOutbox,
+  resendDelivery,
+} from './outbox.js';
+import {
+  BOT_ALARM,
+  BotActions,
+  pollBotCommands,
+  syncBotPolling,
+} from './telegramBot.js';
+import { AlertTransition, nextAlertState } from './alerts.js';
+import { preparePage } from './pageReady.js';
+import { isInSchedule, nextScheduledTime } from './schedule.js';
+import {
+  activityPauseReason,
+  getPageActivity,
+  injectActivityScript,
+} from './userActivity.js';
+import {
+  captureTab,
+  captureWatchTab,
+  resolveWatchTab,
+  verifyWatchTab,
+} from './watchTab.js';
+import { validateDetection, validateMonitoring } from './settings.js';
+import { appendHistory, clearHistory, getHistory } from './history.js';
+import { migrateStorage } from './migrations.js';
+import { exportBackup, importBackup } from './backup.js';
+import { evaluateTextRules, readPageText } from './textRules.js';
+import { recognizeText } from './ocr.js';
+import {
+  HEALTH_ALARM,
+  buildHealthAlert,
+  buildHealthRecovery,
+  collectIssues,
+  detectProblemPage,
+  startWatchdog,
+  updateHealthIssues,
+} from './health.js';
+import {
+  compareSlots,
+  describeSlots,
+  extractSlots,
+  withDetection,
+} from './slots.js';
 
 // Константы
-const DEFAULT_INTERVAL_MIN = 50; 
-const DEFAULT_INTERVAL_MAX = 120; 
-const DEFAULT_REFRESH_DELAY = 3000; 
-const ALARM_NAME = 'slotwatch_monitor';
-const CHANGE_THRESHOLD = 5; 
+const ALARM_PREFIX = 'slotwatch_monitor:';
+
+// Результат проверки страницы
+interface DetectionOutcome {
+  comparison: ComparisonResult;
+  screenshot?: string;
+  timings: Omit<CheckTimings, 'readyMs'>;
+}
+
+// Проверки выполняем по одной: captureVisibleTab работает только
+// с активной вкладкой, и параллельные наблюдения мешали бы друг другу
+let checkQueue: Promise<void> = Promise.resolve();
+// Наблюдения, для которых сейчас идёт калибровка
+const calibrating = new Set<string>();
 
 // Инициализация при установке расширения
-chrome.runtime.onInstalled.addListener(() => {
+chrome.runtime.onInstalled.addListener(async () => {
   console.log('SlotWatch Pro installed');
-  initializeStorage();
+  await migrateStorage();
+  await syncBotPolling();
+  await restoreSchedules();
+  await startWatchdog();
+  await processOutbox();
 });
 
-// Инициализация дефолтных настроек
-async function initializeStorage() {
-  const data = (await chrome.storage.local.get(
-    'monitoring'
-  )) as Partial<StorageData>;
-
-  if (!data.monitoring) {
-    const defaultConfig: MonitoringConfig = {
-      isActive: false,
-      intervalMin: DEFAULT_INTERVAL_MIN,
-      intervalMax: DEFAULT_INTERVAL_MAX,
-      autoRefresh: true,
-      refreshDelay: DEFAULT_REFRESH_DELAY,
-    };
-    await chrome.storage.local.set({ monitoring: defaultConfig });
-  }
-}
+// Опрос бота и проверки переживают перезапуск браузера, но проверим на всякий случай
+chrome.runtime.onStartup.addListener(() => {
+  syncBotPolling();
+  restoreSchedules();
+  startWatchdog();
+  processOutbox();
+});
 
 // Обработка сообщений от popup
 chrome.runtime.onMessage.addListener(
@@ -48,30 +172,110 @@ chrome.runtime.onMessage.addListener(
       .catch((error) => {
         sendResponse({ success: false, error: error.message });
       });
-    return true; 
+    return true;
   }
 );
 
 // Маршрутизация сообщений
 async function handleMessage(message: Message): Promise<MessageResponse> {
   switch (message.type) {
+    case MessageType.ADD_WATCH:
+      return await addWatch(message.payload as AddWatchPayload);
+    case MessageType.DELETE_WATCH:
+      return await deleteWatch(message.payload as WatchPayload);
     case MessageType.CAPTURE_REFERENCE:
-      return await captureReference();
+      return await captureReference(message.payload as WatchPayload);
+    case MessageType.GET_REFERENCE:
+      return await getReference(message.payload as WatchPayload);
+    case MessageType.SET_AREAS:
+      return await setAreas(message.payload as AreasPayload);
+    case MessageType.SET_DETECTION:
+      return await setDetection(message.payload as DetectionPayload);
     case MessageType.START_MONITORING:
-      return await startMonitoring();
+      return await startMonitoring(message.payload as WatchPayload);
     case MessageType.STOP_MONITORING:
-      return await stopMonitoring();
+      return await stopMonitoring(message.payload as WatchPayload);
     case MessageType.GET_STATUS:
       return await getStatus();
     case MessageType.SAVE_SETTINGS:
-      return await saveSettings(message.payload);
+      return await saveSettings(message.payload as SettingsPayload);
+    case MessageType.GET_CHANNELS:
+      return { success: true, data: await getChannels() };
+    case MessageType.SAVE_CHANNEL:
+      return await saveChannelSettings(message.payload as ChannelPayload);
+    case MessageType.DELETE_CHANNEL:
+      await deleteChannel((message.payload as ChannelIdPayload).channelId);
+      await syncBotPolling();
+      return { success: true };
+    case MessageType.TEST_CHANNEL:
+      return await testChannel(message.payload as ChannelIdPayload);
+    case MessageType.SET_WATCH_CHANNELS:
+      return await setWatchChannels(message.payload as WatchChannelsPayload);
+    case MessageType.GET_HISTORY:
+      return { success: true, data: await getHistory() };
+    case MessageType.START_CALIBRATION:
+      return await startCalibration(message.payload as CalibrationPayload);
+    case MessageType.APPLY_CALIBRATION:
+      return await applyCalibration(message.payload as ApplyCalibrationPayload);
+    case MessageType.DISMISS_CALIBRATION:
+      await setCalibration(
+        (message.payload as WatchPayload).watchId,
+        undefined
+      );
+      return { success: true };
+    case MessageType.ADD_BASELINE:
+      return await addCurrentBaseline(message.payload as WatchPayload);
+    case MessageType.DELETE_BASELINE:
+      return await deleteBaseline(message.payload as BaselinePayload);
+    case MessageType.START_LEARNING:
+      return await startLearning(message.payload as LearningPayload);
+    case MessageType.STOP_LEARNING:
+      await updateWatch(
+        (message.payload as WatchPayload).watchId,
+        (current) => {
+          const { learning: _learning, ...rest } = current;
+          return rest;
+        }
+      );
+      return { success: true };
+    case MessageType.CLEAR_HISTORY:
+      await clearHistory((message.payload as ClearHistoryPayload).watchId);
+      return { success: true };
+    case MessageType.GET_OUTBOX:
+      return { success: true, data: await getOutboxStatus() };
+    case MessageType.RESEND_DELIVERY: {
+      const { entryId, deliveryId } = message.payload as OutboxPayload;
+      await resendDelivery(entryId, deliveryId);
+      return { success: true };
+    }
+    case MessageType.EXPORT_BACKUP:
+      return {
+        success: true,
+        data: await exportBackup(
+          (message.payload as ExportPayload).includeTokens
+        ),
+      };
+    case MessageType.IMPORT_BACKUP:
+      return await importSettings(message.payload as ImportPayload);
+    case MessageType.PROMOTE_CAPTURE:
+      return await promoteCapture(message.payload as CapturePayload);
+    case MessageType.DISCARD_DELIVERY: {
+      const { entryId, deliveryId } = message.payload as OutboxPayload;
+      await discardDelivery(entryId, deliveryId);
+      return { success: true };
+    }
     default:
       return { success: false, error: 'Unknown message type' };
   }
 }
 
-// Захват эталонного снимка
-async function captureReference(): Promise<MessageResponse> {
+// Имя alarm для наблюдения
+function alarmName(watchId: string): string {
+  return `${ALARM_PREFIX}${watchId}`;
+}
+
+// Новое наблюдение по текущей вкладке
+async function addWatch(payload: AddWatchPayload): Promise<MessageResponse> {
   try {
     const [tab] = await chrome.tabs.query({
       active: true,
@@ -82,23 +286,88 @@ async function captureReference(): Promise<MessageResponse> {
       return { success: false, error: 'No active tab found' };
     }
 
-    // Делаем скриншот
-    const screenshot = await chrome.tabs.captureVisibleTab({
-      format: 'png',
-    });
+    const url = tab.url || '';
+    const channels = await getChannels();
+    const watch = createWatch(
+      payload.name.trim() || tab.title || url,
+      url,
+      channels.map((channel) => channel.id)
+    );
+    watch.tab = { tabId: tab.id, windowId: tab.windowId };
+    watch.reference = {
+      url,
+      timestamp: Date.now(),
+      screenshotId: await saveCapture(
+        watch.id,
+        'reference',
+        await captureTab(tab)
+      ),
+      keyPhrases: [],
+    };
+
+    await updateWatches((watches) => [...watches, watch]);
+
+    console.log(`Watch added: ${watch.name}`);
+    return { success: true, data: toWatchStatus(watch) };
+  } catch (error) {
+    console.error('Add watch error:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+// Удаление наблюдения
+async function deleteWatch(payload: WatchPayload): Promise<MessageResponse> {
+  await chrome.alarms.clear(alarmName(payload.watchId));
+  await updateWatches((watches) =>
+    watches.filter((watch) => watch.id !== payload.watchId)
+  );
+  await deleteWatchCaptures(payload.watchId);
+  await evictReferences([payload.watchId]);
+  return { success: true };
+}
+
+// Захват эталонного снимка
+async function captureReference(
+  payload: WatchPayload
+): Promise<MessageResponse> {
+  try {
+    const watch = await getWatch(payload.watchId);
+    if (!watch) {
+      return { success: false, error: 'Watch not found' };
+    }
+
+    // Делаем скриншот (вкладка откроется заново, если её закрыли)
+    const tab = await resolveWatchTab(watch);
+    const screenshot = await captureWatchTab(watch, tab.id!);
 
-    // Сохраняем эталон
+    // Сохраняем эталон (выбранные области и варианты остаются прежними)
     const reference: ReferenceSnapshot = {
-  url: tab.url || '',
-  timestamp: Date.now(),
-  screenshot,
-  keyPhrases: [], // просто пустой массив
-};
+      url: watch.url,
+      timestamp: Date.now(),
+      screenshotId: await saveCapture(watch.id, 'reference', screenshot),
+      keyPhrases: [],
+      ...(watch.reference?.region && { region: watch.reference.region }),
+      ...(watch.reference?.masks && { masks: watch.reference.masks }),
+      ...(watch.reference?.baselines && {
+        baselines: watch.reference.baselines,
+      }),
+    };
 
-    await chrome.storage.local.set({ reference });
+    await updateWatch(watch.id, (current) => ({
+      ...current,
+      reference,
+      alertState: createAlertState(),
+    }));
+    // Прежний эталон остаётся в галерее обычным снимком
+    if (watch.reference) {
+      await setCaptureKind(watch.reference.screenshotId, 'check');
+    }
 
-    console.log('Reference captured successfully');
-    return { success: true, data: reference };
+    console.log(`Reference captured for ${watch.name}`);
+    return { success: true };
   } catch (error) {
     console.error('Capture error:', error);
     return {
@@ -108,143 +377,552 @@ async function captureReference(): Promise<MessageResponse> {
   }
 }
 
-// Конвертация base64 в ImageData
-async function base64ToImageData(base64: string): Promise<ImageData> {
+// Эталон наблюдения со снимками (для редакторов в popup)
+async function getReference(payload: WatchPayload): Promise<MessageResponse> {
+  const watch = await getWatch(payload.watchId);
+  if (!watch?.reference) {
+    return { success: false, error: 'No reference snapshot captured' };
+  }
+
+  try {
+    const { reference } = watch;
+    const baselineScreenshots = await Promise.all(
+      (reference.baselines || []).map(async ({ id, screenshotId }) => [
+        id,
+        await loadScreenshot(screenshotId),
+      ])
+    );
+    const preview: ReferencePreview = {
+      ...reference,
+      screenshot: await loadScreenshot(reference.screenshotId),
+      baselineScreenshots: Object.fromEntries(baselineScreenshots),
+    };
+    return { success: true, data: preview };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+// Импорт файла экспорта; у заменённых наблюдений останавливаем проверки
+async function importSettings(
+  payload: ImportPayload
+): Promise<MessageResponse> {
   try {
-    const base64Data = base64.includes(',') ? base64.split(',')[1] : base64;
-    
-    if (!base64Data) {
-      throw new Error('Invalid base64 data');
+    const { watches, channels } = await importBackup(payload.backup);
+    for (const watch of watches) {
+      await chrome.alarms.clear(alarmName(watch.id));
     }
-    
-    // Декодируем base64 в бинарные данные
-    const binaryString = atob(base64Data);
-    const bytes = new Uint8Array(binaryString.length);
-    for (let i = 0; i < binaryString.length; i++) {
-      bytes[i] = binaryString.charCodeAt(i);
+    await syncBotPolling();
+
+    console.log(
+      `Imported ${watches.length} watches and ${channels.length} channels`
+    );
+    return {
+      success: true,
+      data: { watches: watches.length, channels: channels.length },
+    };
+  } catch (error) {
+    console.error('Import error:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+// Снимок из галереи становится эталоном; области и варианты остаются
+async function promoteCapture(
+  payload: CapturePayload
+): Promise<MessageResponse> {
+  const capture = await getCapture(payload.captureId);
+  if (!capture || capture.watchId !== payload.watchId) {
+    return { success: false, error: 'Capture not found' };
+  }
+  // Сначала вид: эталон не удалит очистка снимков идущей сейчас проверки
+  if (!(await setCaptureKind(capture.id, 'reference'))) {
+    return { success: false, error: 'Capture not found' };
+  }
+
+  let previous: string | undefined;
+  const updated = await updateWatch(payload.watchId, (current) => {
+    previous = current.reference?.screenshotId;
+    // Вариант, ставший эталоном, из вариантов убираем
+    const baselines = (current.reference?.baselines || []).filter(
+      ({ screenshotId }) => screenshotId !== capture.id
+    );
+    const reference: ReferenceSnapshot = {
+      url: current.url,
+      timestamp: capture.timestamp,
+      screenshotId: capture.id,
+      keyPhrases: [],
+      ...(current.reference?.region && { region: current.reference.region }),
+      ...(current.reference?.masks && { masks: current.reference.masks }),
+      ...(baselines.length > 0 && { baselines }),
+    };
+    return { ...current, reference, alertState: createAlertState() };
+  });
+  if (!updated) {
+    await setCaptureKind(capture.id, capture.kind);
+    return { success: false, error: 'Watch not found' };
+  }
+
+  if (previous && previous !== capture.id) {
+    await setCaptureKind(previous, 'check');
+  }
+  console.log(`Capture promoted to reference for ${updated.name}`);
+  return { success: true };
+}
+
+// Сохранение области сравнения и масок
+async function setAreas(payload: AreasPayload): Promise<MessageResponse> {
+  const updated = await updateWatch(payload.watchId, (current) => {
+    if (!current.reference) return current;
+    const { region: _region, masks: _masks, ...reference } = current.reference;
+    return {
+      ...current,
+      reference: {
+        ...reference,
+        ...(payload.region && { region: payload.region }),
+        ...(payload.masks.length > 0 && { masks: payload.masks }),
+      },
+    };
+  });
+
+  if (!updated?.reference) {
+    return { success: false, error: 'No reference snapshot captured' };
+  }
+  return { success: true };
+}
+
+// Сохранение способа обнаружения и текстовых правил
+async function setDetection(
+  payload: DetectionPayload
+): Promise<MessageResponse> {
+  const error = validateDetection(payload.detection);
+  if (error) {
+    return { success: false, error };
+  }
+
+  const updated = await updateWatch(payload.watchId, (current) =>
+    withDetection(current, payload.detection)
+  );
+
+  if (!updated) {
+    return { success: false, error: 'Watch not found' };
+  }
+  return { success: true };
+}
+
+// Запуск калибровки: серия проверок без уведомлений
+async function startCalibration(
+  payload: CalibrationPayload
+): Promise<MessageResponse> {
+  const watch = await getWatch(payload.watchId);
+  if (!watch) {
+    return { success: false, error: 'Watch not found' };
+  }
+  if (watch.detection.mode !== 'visual' || !watch.reference) {
+    return {
+      success: false,
+      error: 'Calibration needs visual mode and a reference snapshot',
+    };
+  }
+  if (calibrating.has(watch.id)) {
+    return { success: false, error: 'Calibration is already running' };
+  }
+
+  const total = Math.round(payload.samples);
+  if (
+    !Number.isInteger(total) ||
+    total < 2 ||
+    total > MAX_CALIBRATION_SAMPLES
+  ) {
+    return {
+      success: false,
+      error: `Number of checks must be between 2 and ${MAX_CALIBRATION_SAMPLES}`,
+    };
+  }
+
+  await setCalibration(watch.id, { status: 'running', done: 0, total });
+
+  // Калибровка долгая: popup следит за прогрессом через статус
+  calibrating.add(watch.id);
+  checkQueue = checkQueue
+    .then(() => runCalibration(watch.id, total))
+    .finally(() => calibrating.delete(watch.id));
+  return { success: true };
+}
+
+// Состояние калибровки наблюдения
+async function setCalibration(
+  watchId: string,
+  calibration: CalibrationState | undefined
+) {
+  await updateWatch(watchId, (current) => {
+    const { calibration: _previous, ...rest } = current;
+    return calibration ? { ...rest, calibration } : rest;
+  });
+}
+
+// Серия снимков: процент изменений и карта шумных ячеек. Сравнение — как
+// у проверок (масштаб, варианты, совмещение), чтобы порог им подходил
+async function runCalibration(watchId: string, total: number) {
+  try {
+    const watch = await getWatch(watchId);
+    if (!watch?.reference) {
+      throw new Error('No reference snapshot captured');
     }
-    
-    // Создаём Blob из бинарных данных
-    const blob = new Blob([bytes], { type: 'image/png' });
-    
-    // Создаём ImageBitmap
-    const imageBitmap = await createImageBitmap(blob);
-    
-    // Получаем ImageData через OffscreenCanvas
-    const canvas = new OffscreenCanvas(imageBitmap.width, imageBitmap.height);
-    const ctx = canvas.getContext('2d');
-    
-    if (!ctx) {
-      throw new Error('Failed to get canvas context');
+
+    const { detection } = watch;
+    let noise: NoiseMap | undefined;
+    const samples: number[] = [];
+
+    for (let done = 0; done < total; done++) {
+      const tab = await resolveWatchTab(watch);
+      const readiness = await preparePage(tab.id!, watch.monitoring);
+      if (!readiness.ready) {
+        throw new Error(`Page not ready: ${readiness.reason}`);
+      }
+      const sample = await calibrateScreenshot(
+        watch.id,
+        watch.reference,
+        await captureWatchTab(watch, tab.id!),
+        detection
+      );
+      // Совместить не удалось — такой шум порогом не исправить
+      if (sample.comparison.score === undefined) {
+        throw new Error('Page size differs too much from the reference');
+      }
+
+      samples.push(sample.comparison.changePercentage);
+      if (sample.noise) {
+        noise ??= createNoiseMap(sample.noise.width, sample.noise.height);
+        addNoiseSample(noise, sample.noise.cells);
+      }
+
+      await setCalibration(watchId, {
+        status: 'running',
+        done: done + 1,
+        total,
+      });
     }
-    
-    ctx.drawImage(imageBitmap, 0, 0);
-    return ctx.getImageData(0, 0, imageBitmap.width, imageBitmap.height);
+
+    // Маски из масштаба сравнения — в координаты снимка
+    const masks = noise
+      ? suggestMasks(noise).map((mask) =>
+          scaleRect(mask, 1 / detection.compareScale)
+        )
+      : [];
+    const result = summarizeCalibration(samples, masks, detection.algorithm);
+    console.log(
+      `[${watch.name}] Calibration: noise up to ${result.max}%, suggested threshold ${result.suggestedThreshold}%`
+    );
+    await setCalibration(watchId, {
+      status: 'done',
+      done: total,
+      total,
+      result,
+    });
   } catch (error) {
-    console.error('base64ToImageData error:', error);
-    throw new Error('Unable to download all specified images');
+    console.error('Calibration error:', error);
+    await setCalibration(watchId, {
+      status: 'failed',
+      done: 0,
+      total,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
   }
 }
 
-// Сравнение двух скриншотов
-async function compareScreenshots(
-  referenceBase64: string,
-  currentBase64: string
-): Promise<ComparisonResult> {
-  try {
-    const refImageData = await base64ToImageData(referenceBase64);
-    const curImageData = await base64ToImageData(currentBase64);
+// Применение рекомендаций калибровки к наблюдению
+async function applyCalibration(
+  payload: ApplyCalibrationPayload
+): Promise<MessageResponse> {
+  const updated = await updateWatch(payload.watchId, (current) => {
+    const result = current.calibration?.result;
+    if (!result || !current.reference) return current;
 
-    // Проверка размеров
-    if (
-      refImageData.width !== curImageData.width ||
-      refImageData.height !== curImageData.height
-    ) {
-      console.warn('Screenshot dimensions differ');
+    const { calibration: _calibration, ...rest } = current;
+    const masks = [
+      ...(current.reference.masks || []),
+      ...(payload.applyMasks ? result.suggestedMasks : []),
+    ];
+    return {
+      ...rest,
+      detection: { ...current.detection, threshold: result.suggestedThreshold },
+      reference: {
+        ...current.reference,
+        ...(masks.length > 0 && { masks }),
+      },
+    };
+  });
+
+  if (!updated) {
+    return { success: false, error: 'Watch not found' };
+  }
+  if (updated.calibration) {
+    return { success: false, error: 'No calibration result to apply' };
+  }
+  return { success: true };
+}
+
+// Текущая страница как ещё один вариант «без изменений»
+async function addCurrentBaseline(
+  payload: WatchPayload
+): Promise<MessageResponse> {
+  try {
+    const watch = await getWatch(payload.watchId);
+    if (!watch?.reference) {
+      return { success: false, error: 'No reference snapshot captured' };
+    }
+    if (!canAddBaseline(watch.reference)) {
       return {
-        hasChanged: true,
-        changePercentage: 100,
-        detectedText: '',
-        missingPhrases: ['Page layout changed'],
+        success: false,
+        error: `At most ${MAX_BASELINES} baselines; delete one first`,
       };
     }
 
-    const refData = refImageData.data;
-    const curData = curImageData.data;
-    let diffPixels = 0;
-    const totalPixels = refData.length / 4; 
+    const tab = await resolveWatchTab(watch);
+    const screenshotId = await saveCapture(
+      watch.id,
+      'baseline',
+      await captureWatchTab(watch, tab.id!)
+    );
+    await updateWatch(watch.id, (current) =>
+      current.reference
+        ? {
+            ...current,
+            reference: addBaseline(current.reference, screenshotId, 'manual'),
+          }
+        : current
+    );
+    return { success: true };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
 
-    // Сравниваем попиксельно (каждый 4й пиксель для скорости)
-    for (let i = 0; i < refData.length - 3; i += 16) {
-      if (i + 2 >= curData.length) break;
+// Удаление варианта эталона
+async function deleteBaseline(
+  payload: BaselinePayload
+): Promise<MessageResponse> {
+  let screenshotId: string | undefined;
+  await updateWatch(payload.watchId, (current) => {
+    if (!current.reference) return current;
+    screenshotId = current.reference.baselines?.find(
+      ({ id }) => id === payload.baselineId
+    )?.screenshotId;
+    return {
+      ...current,
+      reference: removeBaseline(current.reference, payload.baselineId),
+    };
+  });
+  // Снимок варианта остаётся в галерее обычным снимком
+  if (screenshotId) {
+    await setCaptureKind(screenshotId, 'check');
+  }
+  return { success: true };
+}
 
-      // RGB сравнение (игнорируем альфа канал)
-      const rDiff = Math.abs((refData[i] ?? 0) - (curData[i] ?? 0));
-      const gDiff = Math.abs((refData[i + 1] ?? 0) - (curData[i + 1] ?? 0));
-      const bDiff = Math.abs((refData[i + 2] ?? 0) - (curData[i + 2] ?? 0));
+// Обучение: проверки идут как обычно, но вместо оповещений непохожие
+// снимки добавляются в эталоны. Остановленное наблюдение запускается
+async function startLearning(
+  payload: LearningPayload
+): Promise<MessageResponse> {
+  const watch = await getWatch(payload.watchId);
+  if (!watch) {
+    return { success: false, error: 'Watch not found' };
+  }
+  if (watch.detection.mode !== 'visual' || !watch.reference) {
+    return {
+      success: false,
+      error: 'Learning needs visual mode and a reference snapshot',
+    };
+  }
+  if (
+    !Number.isFinite(payload.minutes) ||
+    payload.minutes < 1 ||
+    payload.minutes > MAX_LEARNING_MINUTES
+  ) {
+    return {
+      success: false,
+      error: `Learning time must be between 1 and ${MAX_LEARNING_MINUTES} minutes`,
+    };
+  }
 
-      // Если разница больше порога (игнорируем мелкие изменения)
-      if (rDiff > 30 || gDiff > 30 || bDiff > 30) {
-        diffPixels++;
-      }
+  if (!watch.monitoring.isActive) {
+    const started = await startMonitoring({ watchId: watch.id });
+    if (!started.success) {
+      return started;
     }
+  }
 
-    const sampledPixels = totalPixels / 4; 
-    const changePercentage = (diffPixels / sampledPixels) * 100;
+  await updateWatch(watch.id, (current) => ({
+    ...current,
+    learning: { until: Date.now() + payload.minutes * 60_000, added: 0 },
+  }));
+  return { success: true };
+}
 
-    console.log(`Change detected: ${changePercentage.toFixed(2)}%`);
+// Шаг обучения: снимок, не совпавший ни с одним эталоном, становится новым
+async function learnBaseline(
+  watch: Watch,
+  comparison: ComparisonResult,
+  captureId: string | undefined,
+  record: CheckRecord
+): Promise<CheckRecord> {
+  const now = Date.now();
+  let learned = false;
+  await updateWatch(watch.id, (current) => {
+    const monitoring = {
+      ...checkedAt(current.monitoring, now),
+      lastChangePercentage: comparison.changePercentage,
+    };
+    if (
+      !comparison.hasChanged ||
+      !captureId ||
+      !current.reference ||
+      !current.learning ||
+      !canAddBaseline(current.reference)
+    ) {
+      return { ...current, monitoring };
+    }
 
+    learned = true;
     return {
-      hasChanged: changePercentage > CHANGE_THRESHOLD,
-      changePercentage: parseFloat(changePercentage.toFixed(2)),
-      detectedText: '',
-      missingPhrases:
-        changePercentage > CHANGE_THRESHOLD ? ['Visual changes detected'] : [],
+      ...current,
+      monitoring,
+      reference: addBaseline(current.reference, captureId, 'learned'),
+      learning: { ...current.learning, added: current.learning.added + 1 },
     };
-  } catch (error) {
-    console.error('Comparison error:', error);
-    throw new Error('Failed to compare screenshots');
+  });
+
+  if (learned) {
+    await setCaptureKind(captureId!, 'baseline');
+    console.log(`[${watch.name}] New baseline learned`);
+  }
+  return learned ? { ...record, learned } : record;
+}
+
+// Сохранение канала уведомлений
+async function saveChannelSettings(
+  payload: ChannelPayload
+): Promise<MessageResponse> {
+  const error = validateChannel(payload.channel);
+  if (error) {
+    return { success: false, error };
+  }
+
+  await saveChannel(payload.channel);
+  await syncBotPolling();
+  return { success: true };
+}
+
+// Тестовое уведомление в канал
+async function testChannel(
+  payload: ChannelIdPayload
+): Promise<MessageResponse> {
+  const channels = await getChannels();
+  const channel = channels.find((item) => item.id === payload.channelId);
+  if (!channel) {
+    return { success: false, error: 'Channel not found' };
+  }
+
+  const result = await notifyChannel(channel, {
+    title: '🔔 SlotWatch Pro test',
+    text: `Test notification for channel "${channel.name}". If you see this, alerts will be delivered here.`,
+    images: [],
+  });
+  await recordDeliveries([result]);
+  await checkHealth();
+
+  return result.success
+    ? { success: true }
+    : { success: false, error: result.error || 'Delivery failed' };
+}
+
+// Выбор каналов для наблюдения
+async function setWatchChannels(
+  payload: WatchChannelsPayload
+): Promise<MessageResponse> {
+  const updated = await updateWatch(payload.watchId, (current) => ({
+    ...current,
+    channelIds: payload.channelIds,
+  }));
+
+  if (!updated) {
+    return { success: false, error: 'Watch not found' };
   }
+  return { success: true };
+}
+
+// Включённые и существующие каналы наблюдения
+async function getWatchChannels(watch: Watch): Promise<NotificationChannel[]> {
+  const channels = await getChannels();
+  return channels.filter((channel) => watch.channelIds.includes(channel.id));
 }
 
 // Старт мониторинга
-async function startMonitoring(): Promise<MessageResponse> {
+async function startMonitoring(
+  payload: WatchPayload
+): Promise<MessageResponse> {
   try {
-    // Проверяем наличие эталона
-    const data = (await chrome.storage.local.get([
-      'reference',
-      'telegram',
-      'monitoring',
-    ])) as Partial<StorageData>;
-
-    if (!data.reference) {
-      return { success: false, error: 'No reference snapshot captured' };
+    const watch = await getWatch(payload.watchId);
+
+    if (!watch) {
+      return { success: false, error: 'Watch not found' };
     }
 
-    if (!data.telegram?.botToken || !data.telegram?.chatId) {
-      return { success: false, error: 'Telegram settings not configured' };
+    // Проверяем наличие эталона или правил
+    if (!canMonitor(watch)) {
+      return {
+        success: false,
+        error:
+          watch.detection.mode === 'slots'
+            ? 'No slot selector configured'
+            : watch.detection.mode !== 'visual'
+              ? 'No text rules configured'
+              : 'No reference snapshot captured',
+      };
     }
 
-    // Обновляем статус
-    const config: MonitoringConfig = {
-      ...(data.monitoring || {}),
-      isActive: true,
-      intervalMin: data.monitoring?.intervalMin || DEFAULT_INTERVAL_MIN,
-      intervalMax: data.monitoring?.intervalMax || DEFAULT_INTERVAL_MAX,
-      autoRefresh: data.monitoring?.autoRefresh ?? true,
-      refreshDelay: data.monitoring?.refreshDelay || DEFAULT_REFRESH_DELAY,
-    };
-    await chrome.storage.local.set({ monitoring: config });
+    // Подойдёт любой включённый канал уведомлений
+    if ((await getWatchChannels(watch)).length === 0) {
+      return {
+        success: false,
+        error: 'No notification channels enabled for this watch',
+      };
+    }
 
-    // Запускаем alarm
-    const intervalMinutes =
-      getRandomInterval(config.intervalMin, config.intervalMax) / 60;
-    await chrome.alarms.create(ALARM_NAME, {
-      delayInMinutes: intervalMinutes,
-      periodInMinutes: intervalMinutes,
+    // Обновляем статус (каждый запуск начинается с эталона,
+    // снимает приостановку после alert и заново собирает список слотов)
+    const updated = await updateWatch(watch.id, (current) => {
+      const {
+        suspendedUntil: _suspended,
+        failures: _failures,
+        ...monitoring
+      } = current.monitoring;
+      const { slots: _slots, ...rest } = current;
+      return {
+        ...rest,
+        monitoring: { ...monitoring, isActive: true },
+        alertState: createAlertState(),
+      };
     });
+    if (!updated) {
+      return { success: false, error: 'Watch not found' };
+    }
+
+    // Запускаем alarm
+    await scheduleChecks(updated);
 
-    console.log('Monitoring started');
+    console.log(`Monitoring started: ${watch.name}`);
     return { success: true };
   } catch (error) {
     return {
@@ -254,24 +932,67 @@ async function startMonitoring(): Promise<MessageResponse> {
   }
 }
 
+// Alarm следующей проверки (create заменяет существующий): интервал
+// выбирается заново перед каждой проверкой и сдвигается в окно расписания
+// и за приостановку после alert. stalledSince — проверка, которая так и не
+// состоялась (alarm потерян); остальные вызовы эту отметку снимают
+async function scheduleChecks(watch: Watch, stalledSince?: number) {
+  const { intervalMin, intervalMax, schedule, suspendedUntil } =
+    watch.monitoring;
+  const from = Math.max(
+    Date.now() + getRandomInterval(intervalMin, intervalMax) * 1000,
+    suspendedUntil ?? 0
+  );
+  const next = nextScheduledTime(schedule, from);
+  if (next === null) {
+    await chrome.alarms.clear(alarmName(watch.id));
+    return;
+  }
+
+  await chrome.alarms.create(alarmName(watch.id), { when: next });
+  await updateWatch(watch.id, (current) => {
+    const { stalledSince: _stalled, ...monitoring } = current.monitoring;
+    return {
+      ...current,
+      monitoring: {
+        ...monitoring,
+        nextCheckTime: next,
+        ...(stalledSince !== undefined && { stalledSince }),
+      },
+    };
+  });
+}
+
+// Alarm теряется, если service worker остановился между срабатыванием
+// и планированием следующей проверки: восстанавливаем при запуске
+async function restoreSchedules() {
+  const now = Date.now();
+  for (const watch of await getWatches()) {
+    if (
+      watch.monitoring.isActive &&
+      !(await chrome.alarms.get(alarmName(watch.id)))
+    ) {
+      // Пропущенная проверка остаётся неполадкой для сторожа, пока не
+      // пройдёт новая: иначе перепланирование скрыло бы обрыв цепочки
+      const { nextCheckTime, stalledSince } = watch.monitoring;
+      const missed =
+        nextCheckTime !== undefined && nextCheckTime < now
+          ? nextCheckTime
+          : undefined;
+      await scheduleChecks(watch, stalledSince ?? missed);
+    }
+  }
+}
+
 // Остановка мониторинга
-async function stopMonitoring(): Promise<MessageResponse> {
+async function stopMonitoring(payload: WatchPayload): Promise<MessageResponse> {
   try {
-    const data = (await chrome.storage.local.get(
-      'monitoring'
-    )) as Partial<StorageData>;
-
-    const config: MonitoringConfig = {
-      ...(data.monitoring || {}),
-      isActive: false,
-      intervalMin: data.monitoring?.intervalMin || DEFAULT_INTERVAL_MIN,
-      intervalMax: data.monitoring?.intervalMax || DEFAULT_INTERVAL_MAX,
-      autoRefresh: data.monitoring?.autoRefresh ?? true,
-      refreshDelay: data.monitoring?.refreshDelay || DEFAULT_REFRESH_DELAY,
-    };
-    await chrome.storage.local.set({ monitoring: config });
+    await updateWatch(payload.watchId, (current) => {
+      const { nextCheckTime: _next, ...monitoring } = current.monitoring;
+      return { ...current, monitoring: { ...monitoring, isActive: false } };
+    });
 
-    await chrome.alarms.clear(ALARM_NAME);
+    await chrome.alarms.clear(alarmName(payload.watchId));
 
     console.log('Monitoring stopped');
     return { success: true };
@@ -283,161 +1004,567 @@ async function stopMonitoring(): Promise<MessageResponse> {
   }
 }
 
-// Получение статуса
+// Получение статуса всех наблюдений
 async function getStatus(): Promise<MessageResponse> {
-  const data = (await chrome.storage.local.get(
-    'monitoring'
-  )) as Partial<StorageData>;
-  return { success: true, data: data.monitoring };
+  const watches = await getWatches();
+  return { success: true, data: watches.map(toWatchStatus) };
 }
 
-// Сохранение настроек
-async function saveSettings(payload: unknown): Promise<MessageResponse> {
-  try {
-    const settings = payload as {
-      telegram: TelegramConfig;
-      keywords: string[];
-    };
-    await chrome.storage.local.set(settings);
-    return { success: true };
-  } catch (error) {
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : 'Unknown error',
-    };
+// Сохранение настроек мониторинга и обнаружения наблюдения
+async function saveSettings(
+  payload: SettingsPayload
+): Promise<MessageResponse> {
+  const error =
+    validateMonitoring(payload.monitoring) ||
+    validateDetection(payload.detection);
+  if (error) {
+    return { success: false, error };
+  }
+
+  const {
+    intervalMin,
+    intervalMax,
+    autoRefresh,
+    fullPage,
+    settleTime,
+    readyTimeout,
+    readySelector,
+    activityPause,
+    alertSuspend,
+    failureLimit,
+    problemTexts,
+    problemSelectors,
+    captureRetention,
+    schedule,
+  } = payload.monitoring;
+  const updated = await updateWatch(payload.watchId, (current) => ({
+    ...withDetection(current, payload.detection),
+    monitoring: {
+      ...current.monitoring,
+      intervalMin,
+      intervalMax,
+      autoRefresh,
+      fullPage,
+      settleTime,
+      readyTimeout,
+      readySelector,
+      activityPause,
+      alertSuspend,
+      failureLimit,
+      problemTexts,
+      problemSelectors,
+      captureRetention,
+      schedule,
+    },
+  }));
+
+  if (!updated) {
+    return { success: false, error: 'Watch not found' };
+  }
+
+  // Остальное проверка читает сама, а интервал живёт в alarm
+  if (updated.monitoring.isActive) {
+    await scheduleChecks(updated);
   }
+  return { success: true };
 }
 
 // Обработка alarm (периодическая проверка)
 chrome.alarms.onAlarm.addListener(async (alarm) => {
-  if (alarm.name === ALARM_NAME) {
-    await checkForChanges();
+  if (alarm.name.startsWith(ALARM_PREFIX)) {
+    const watchId = alarm.name.slice(ALARM_PREFIX.length);
+    checkQueue = checkQueue.then(() => checkForChanges(watchId));
+    await checkQueue;
+  } else if (alarm.name === BOT_ALARM) {
+    // Команды тоже снимают вкладки, поэтому идут в общую очередь
+    checkQueue = checkQueue.then(() => pollBotCommands(botActions));
+    await checkQueue;
+  } else if (alarm.name === OUTBOX_ALARM) {
+    await processOutbox();
+  } else if (alarm.name === HEALTH_ALARM) {
+    // Мимо очереди: сторож должен заметить и зависшую очередь
+    await restoreSchedules();
+    await checkHealth();
   }
 });
 
-// Проверка изменений на странице
-async function checkForChanges() {
+// Команды бота Telegram
+const botActions: BotActions = {
+  start: (watchId) => startMonitoring({ watchId }),
+  stop: (watchId) => stopMonitoring({ watchId }),
+  rebase: (watchId) => captureReference({ watchId }),
+  async screenshot(watchId) {
+    const watch = await getWatch(watchId);
+    if (!watch) {
+      throw new Error('Watch not found');
+    }
+
+    const tab = await resolveWatchTab(watch);
+    return await captureWatchTab(watch, tab.id!);
+  },
+};
+
+// Проверка изменений на странице наблюдения (результат пишется в журнал)
+async function checkForChanges(watchId: string) {
+  const startedAt = Date.now();
+  let watch: Watch | undefined;
+
   try {
-    const data = (await chrome.storage.local.get([
-      'reference',
-      'telegram',
-      'monitoring',
-    ])) as Partial<StorageData>;
+    watch = await getWatch(watchId);
 
-    if (!data.reference || !data.monitoring?.isActive) {
+    if (!watch) {
+      await chrome.alarms.clear(alarmName(watchId));
       return;
     }
 
-    const [activeTab] = await chrome.tabs.query({
-      active: true,
-      currentWindow: true,
-    });
+    if (!watch.monitoring.isActive) {
+      return;
+    }
 
-    if (!activeTab || !activeTab.id) {
-      console.log('No active tab found');
+    // Следующую проверку планируем сразу, чтобы ошибка этой не оборвала цепочку
+    await scheduleChecks(watch);
+
+    // Вне окон расписания (его могли поменять) и после alert не проверяем
+    if (
+      !canMonitor(watch) ||
+      !isInSchedule(watch.monitoring.schedule, startedAt) ||
+      (watch.monitoring.suspendedUntil ?? 0) > startedAt
+    ) {
       return;
     }
 
-    //console.log(`Checking tab: ${activeTab.url}`);
+    const record = await runCheck(watch, startedAt);
+    if (record) {
+      await appendHistory(record);
+      // Снимки проверок сверх лимита хранения удаляем
+      await pruneCaptures(watch.id, watch.monitoring.captureRetention);
+    }
 
-    // Обновляем страницу если включен auto-refresh
-    if (data.monitoring?.autoRefresh) {
-      await chrome.tabs.reload(activeTab.id);
-      // Ждём загрузки страницы
-      await new Promise((resolve) =>
-        setTimeout(
-          resolve,
-          data.monitoring?.refreshDelay || DEFAULT_REFRESH_DELAY
-        )
-      );
+    // Alert приостановил наблюдение: переносим проверку на конец паузы
+    const after = await getWatch(watchId);
+    if (
+      after?.monitoring.isActive &&
+      (after.monitoring.suspendedUntil ?? 0) >
+        (after.monitoring.nextCheckTime ?? 0)
+    ) {
+      await scheduleChecks(after);
     }
+  } catch (error) {
+    console.error('Check error:', error);
+    if (watch) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      await updateWatch(watchId, (current) => ({
+        ...current,
+        monitoring: {
+          ...current.monitoring,
+          lastError: message,
+          failures: (current.monitoring.failures ?? 0) + 1,
+        },
+      }));
+      await appendHistory({
+        ...createRecord(watch, startedAt),
+        error: message,
+      });
+    }
+  } finally {
+    await checkHealth();
+  }
+}
 
-    // Делаем новый скриншот
-    const screenshot = await chrome.tabs.captureVisibleTab({
-      format: 'png',
+// Сторож: health alert о новых неполадках мониторинга
+// и сообщение, когда неполадка устранена
+async function checkHealth() {
+  try {
+    let watches: Watch[] = [];
+    let channels: NotificationChannel[] = [];
+    const { opened, resolved } = await updateHealthIssues(async () => {
+      [watches, channels] = await Promise.all([getWatches(), getChannels()]);
+      return collectIssues(watches, channels, Date.now());
     });
 
-    // Сравниваем скриншоты
-    const comparison = await compareScreenshots(
-      data.reference.screenshot,
-      screenshot
-    );
+    for (const issue of opened) {
+      console.warn(`Health problem: ${issue.message}`);
+      const watch = watches.find(({ id }) => id === issue.watchId);
+      await sendHealthNotice(buildHealthAlert(issue, watch), channels, watch);
+    }
+    for (const issue of resolved) {
+      const watch = watches.find(({ id }) => id === issue.watchId);
+      // Остановленное или удалённое наблюдение, удалённый канал — не восстановление
+      const restored = issue.watchId
+        ? watch?.monitoring.isActive
+        : channels.some(({ id }) => id === issue.channelId);
+      if (restored) {
+        await sendHealthNotice(
+          buildHealthRecovery(issue, watch),
+          channels,
+          watch
+        );
+      }
+    }
+  } catch (error) {
+    console.error('Health check error:', error);
+  }
+}
 
-    console.log(
-      `Comparison result: ${comparison.hasChanged ? 'CHANGED' : 'NO CHANGE'} (${comparison.changePercentage}%)`
+// Отправка health alert: в каналы наблюдения (о канале — во все), кроме
+// неисправных. Не дошло никуда — хотя бы уведомление браузера
+async function sendHealthNotice(
+  notification: Notification,
+  channels: NotificationChannel[],
+  watch?: Watch
+) {
+  const targets = channels.filter(
+    (channel) =>
+      !channel.lastError && (!watch || watch.channelIds.includes(channel.id))
+  );
+  const deliveries = await deliver(targets, notification, watch?.id);
+  if (!deliveries.some((delivery) => delivery.success)) {
+    await notifyChannel(
+      { id: 'health', name: 'Browser', type: 'browser', recipients: [] },
+      notification
     );
+  }
+}
+
+// Пустая запись журнала для проверки
+function createRecord(watch: Watch, startedAt: number): CheckRecord {
+  return {
+    id: crypto.randomUUID(),
+    timestamp: startedAt,
+    watchId: watch.id,
+    watchName: watch.name,
+    mode: watch.detection.mode,
+    hasChanged: false,
+    changePercentage: null,
+    deliveries: [],
+    durationMs: Date.now() - startedAt,
+  };
+}
+
+// Отметка о состоявшейся проверке; ошибка и пауза прошлой проверки
+// больше не актуальны
+function checkedAt(
+  monitoring: MonitoringConfig,
+  now: number
+): MonitoringConfig {
+  const {
+    lastError: _error,
+    pausedReason: _paused,
+    failures: _failures,
+    ...rest
+  } = monitoring;
+  return { ...rest, lastCheckTime: now };
+}
 
-    // Обновляем время последней проверки
-    const config: MonitoringConfig = {
-      ...(data.monitoring || {}),
-      isActive: data.monitoring?.isActive || false,
-      intervalMin: data.monitoring?.intervalMin || DEFAULT_INTERVAL_MIN,
-      intervalMax: data.monitoring?.intervalMax || DEFAULT_INTERVAL_MAX,
-      autoRefresh: data.monitoring?.autoRefresh ?? true,
-      refreshDelay: data.monitoring?.refreshDelay || DEFAULT_REFRESH_DELAY,
-      lastCheckTime: Date.now(),
+// Одна проверка: обновление страницы, сравнение, оповещения.
+// null — проверка отложена, пока пользователь работает со страницей
+async function runCheck(
+  watch: Watch,
+  startedAt: number
+): Promise<CheckRecord | null> {
+  const { id: tabId } = await resolveWatchTab(watch);
+
+  // Перезагрузка стёрла бы заполняемую форму
+  const pausedReason = activityPauseReason(
+    await getPageActivity(tabId!),
+    watch.monitoring,
+    Date.now()
+  );
+  if (pausedReason) {
+    console.log(`[${watch.name}] Check paused: ${pausedReason}`);
+    await updateWatch(watch.id, (current) => ({
+      ...current,
+      monitoring: { ...current.monitoring, pausedReason },
+    }));
+    return null;
+  }
+
+  const readiness = await preparePage(tabId!, watch.monitoring);
+
+  // После перезагрузки страница могла уйти на другой адрес (например, вход)
+  const tab = await verifyWatchTab(watch, tabId!);
+  // Следим за действиями пользователя в новом документе до следующей проверки
+  await injectActivityScript(tab.id!);
+  // Ошибка, капча или истёкшая сессия вместо страницы со слотами
+  const problem = await detectProblemPage(tab.id!, watch.monitoring);
+  if (problem) {
+    throw new Error(`Problem page: ${problem}`);
+  }
+  const { comparison, screenshot, timings } = await detectChanges(watch, tab);
+  // Каждый снимок проверки — в галерею (при хранении 0 удалится сразу)
+  const captureId = screenshot
+    ? await saveCapture(
+        watch.id,
+        'check',
+        screenshot,
+        comparison.changePercentage
+      )
+    : undefined;
+
+  console.log(
+    `[${watch.name}] Comparison result: ${comparison.hasChanged ? 'CHANGED' : 'NO CHANGE'} (${comparison.changePercentage}%), page ready in ${readiness.waitedMs} ms, capture ${timings.captureMs ?? '-'} ms, decode ${timings.decodeMs ?? '-'} ms, compare ${timings.compareMs} ms`
+  );
+
+  const record: CheckRecord = {
+    ...createRecord(watch, startedAt),
+    hasChanged: comparison.hasChanged,
+    changePercentage: comparison.changePercentage,
+    ...(comparison.algorithm && { algorithm: comparison.algorithm }),
+    ...(comparison.score !== undefined && { score: comparison.score }),
+    ...(comparison.slots && { slots: comparison.slots }),
+    ...(captureId && watch.monitoring.captureRetention > 0 && { captureId }),
+    timings: { readyMs: readiness.waitedMs, ...timings },
+  };
+
+  // Недогруженная страница даёт ложные срабатывания: результат только в журнал
+  if (!readiness.ready) {
+    console.warn(`[${watch.name}] Unreliable capture: ${readiness.reason}`);
+    // Страница, которая не загружается ни разу, — тоже неполадка:
+    // такие проверки считаются ошибками подряд для health alert
+    const reason = readiness.reason || 'Page not ready';
+    await updateWatch(watch.id, (current) => {
+      const monitoring = checkedAt(current.monitoring, Date.now());
+      return {
+        ...current,
+        monitoring: {
+          ...monitoring,
+          lastError: `Page not ready: ${reason}`,
+          failures: (current.monitoring.failures ?? 0) + 1,
+        },
+      };
+    });
+    return { ...record, unreliable: reason };
+  }
+
+  if (watch.learning && watch.learning.until > startedAt) {
+    return await learnBaseline(watch, comparison, captureId, record);
+  }
+
+  // Обновляем время и результат последней проверки
+  // и переводим состояние оповещений
+  const now = Date.now();
+  let transition: AlertTransition | undefined;
+  const updated = await updateWatch(watch.id, (current) => {
+    transition = nextAlertState(
+      current.alertState,
+      comparison,
+      current.detection,
+      now
+    );
+    // После alert приостанавливаемся, чтобы не мешать бронированию
+    const suspend =
+      (transition.action === 'alert' || transition.action === 'repeat') &&
+      current.monitoring.alertSuspend > 0;
+    // Время обучения вышло: снимаем отметку
+    const { learning, ...rest } = current;
+    return {
+      ...rest,
+      ...(learning && learning.until > now && { learning }),
+      // Список слотов для сравнения на следующей проверке
+      ...(comparison.slots && {
+        slots: { items: comparison.slots.available, checkedAt: now },
+      }),
+      monitoring: {
+        ...checkedAt(current.monitoring, now),
+        lastChangePercentage: comparison.changePercentage,
+        ...(suspend && {
+          suspendedUntil: now + current.monitoring.alertSuspend * 60_000,
+        }),
+      },
+      alertState: transition.state,
     };
-    await chrome.storage.local.set({ monitoring: config });
+  });
 
-    // Если изменения обнаружены
-    if (comparison.hasChanged) {
-      console.log('Changes detected! Sending notifications...');
-      await sendTelegramNotification(data.telegram!, comparison);
-      await showBrowserNotification(comparison);
-    }
-  } catch (error) {
-    console.error('Check error:', error);
+  if (!updated || !transition?.action) {
+    return record;
   }
+
+  const channels = await getWatchChannels(updated);
+  let deliveries: DeliveryResult[];
+  if (transition.action === 'recovered') {
+    console.log(`[${watch.name}] Back to baseline`);
+    deliveries = await deliver(
+      channels,
+      buildRecovery(updated, watch.alertState.changedSince),
+      watch.id
+    );
+  } else {
+    console.log('Changes detected! Sending notifications...');
+    const alert = await buildAlert(
+      updated,
+      comparison,
+      screenshot || (await captureWatchTab(watch, tab.id!)),
+      transition.action === 'repeat'
+    );
+    deliveries = await deliver(channels, alert, watch.id);
+  }
+
+  return {
+    ...record,
+    alert: transition.action,
+    deliveries,
+    durationMs: Date.now() - startedAt,
+  };
 }
 
-// Отправка уведомления в Telegram
-async function sendTelegramNotification(
-  config: TelegramConfig,
-  comparison: ComparisonResult
-) {
-  const url = `https://api.telegram.org/bot${config.botToken}/sendMessage`;
-  
-  const message = `🎯 SlotWatch Pro Alert!
+// Проверка страницы выбранным способом
+async function detectChanges(
+  watch: Watch,
+  tab: chrome.tabs.Tab
+): Promise<DetectionOutcome> {
+  const startedAt = Date.now();
+
+  // Текстовые правила по DOM
+  if (watch.detection.mode === 'text') {
+    const text = await readPageText(tab.id!, watch.detection.selector);
+    return {
+      comparison: evaluateTextRules(text, watch.detection),
+      timings: { compareMs: Date.now() - startedAt },
+    };
+  }
+
+  // Список доступных слотов против прошлой проверки
+  if (watch.detection.mode === 'slots') {
+    const { available, total } = await extractSlots(tab.id!, watch.detection);
+    return {
+      comparison: compareSlots(watch.slots?.items, available, total),
+      timings: { compareMs: Date.now() - startedAt },
+    };
+  }
 
-Detected changes on the monitored page!
+  // Делаем новый скриншот
+  const screenshot = await captureWatchTab(watch, tab.id!);
+  const captureMs = Date.now() - startedAt;
 
-Change percentage: ${comparison.changePercentage}%
+  // Текстовые правила по распознанному тексту (canvas, картинки)
+  if (watch.detection.mode === 'ocr') {
+    const ocr = await recognizeText(screenshot, watch.reference?.region);
+    return {
+      comparison: {
+        ...evaluateTextRules(ocr.text, watch.detection),
+        mode: 'ocr',
+        ocr,
+      },
+      screenshot,
+      timings: { captureMs, compareMs: Date.now() - startedAt - captureMs },
+    };
+  }
 
-Slots may be available now! Check immediately.`;
+  if (!watch.reference) {
+    throw new Error('No reference snapshot captured');
+  }
 
-  try {
-    const response = await fetch(url, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        chat_id: config.chatId,
-        text: message,
-      }),
-    });
+  // Сравниваем с эталоном
+  const { comparison, decodeMs, compareMs } = await compareScreenshots(
+    watch.id,
+    watch.reference,
+    screenshot,
+    watch.detection
+  );
+  return {
+    comparison,
+    screenshot,
+    timings: { captureMs, decodeMs, compareMs },
+  };
+}
 
-    if (response.ok) {
-      console.log('Telegram notification sent');
-    } else {
-      console.error('Telegram error:', await response.text());
+// Описание изменений для уведомлений
+function describeComparison(comparison: ComparisonResult): string {
+  if (comparison.slots) {
+    return describeSlots(comparison.slots);
+  }
+  if (comparison.mode === 'visual') {
+    const line = `Change percentage: ${comparison.changePercentage}% (${comparison.algorithm}, score ${comparison.score ?? '-'})`;
+    const { alignment } = comparison;
+    return alignment
+      ? `${line}\nScreenshot size differs from the reference: compared the common ${alignment.width}×${alignment.height} part`
+      : line;
+  }
+
+  const lines: string[] = [];
+  if (comparison.missingPhrases.length > 0) {
+    lines.push(`Disappeared: ${comparison.missingPhrases.join(', ')}`);
+  }
+  if (comparison.appearedPhrases.length > 0) {
+    lines.push(`Appeared: ${comparison.appearedPhrases.join(', ')}`);
+  }
+  if (comparison.ocr) {
+    lines.push(
+      `Recognized text (${comparison.ocr.confidence}% confidence): ${comparison.detectedText}`
+    );
+  }
+  return lines.join('\n');
+}
+
+// Уведомление об изменениях: текст, скриншот и карта изменений
+async function buildAlert(
+  watch: Watch,
+  comparison: ComparisonResult,
+  screenshot: string,
+  repeat: boolean
+): Promise<Notification> {
+  const images: TelegramPhoto[] = [
+    { name: 'current', blob: base64ToBlob(screenshot) },
+  ];
+
+  // Карта изменений есть только при сравнении с эталоном
+  if (comparison.mode === 'visual' && watch.reference) {
+    try {
+      const diff = await renderDiff(
+        watch.id,
+        watch.reference,
+        screenshot,
+        watch.detection,
+        comparison
+      );
+      if (diff) {
+        images.push({ name: 'diff', blob: diff });
+      }
+    } catch (error) {
+      console.error('Diff image error:', error);
     }
-  } catch (error) {
-    console.error('Telegram error:', error);
   }
+
+  const since = watch.alertState.changedSince;
+  const headline = repeat
+    ? `Still changed on "${watch.name}" since ${since ? new Date(since).toLocaleTimeString() : 'the last alert'}`
+    : `Detected changes on "${watch.name}"!`;
+
+  return {
+    title: `🎯 SlotWatch Pro: ${watch.name}`,
+    text: `${headline}
+${watch.url}
+
+${describeComparison(comparison)}
+
+Slots may be available now! Check immediately.`,
+    watchName: watch.name,
+    url: watch.url,
+    changePercentage: comparison.changePercentage,
+    images,
+  };
 }
 
-// Браузерное уведомление
-async function showBrowserNotification(comparison: ComparisonResult) {
-  await chrome.notifications.create({
-    type: 'basic',
-    iconUrl: 'icons/icon128.png',
-    title: 'SlotWatch Pro Alert!',
-    message: `Changes detected! ${comparison.changePercentage}% of pixels changed`,
-    priority: 2,
-  });
-  console.log('Browser notification shown');
+// Уведомление о возврате страницы к эталону
+function buildRecovery(watch: Watch, changedSince?: number): Notification {
+  const duration = changedSince
+    ? ` after ${Math.max(1, Math.round((Date.now() - changedSince) / 60_000))} min`
+    : '';
+
+  return {
+    title: `✅ SlotWatch Pro: ${watch.name}`,
+    text: `"${watch.name}" is back to normal${duration}.
+${watch.url}
+
+The page matches the reference again, slots are probably gone.`,
+    watchName: watch.name,
+    url: watch.url,
+    changePercentage: watch.monitoring.lastChangePercentage ?? 0,
+    images: [],
+  };
 }
 
 // Случайный интервал для антидетекции
 function getRandomInterval(min: number, max: number): number {
   return Math.floor(Math.random() * (max - min + 1)) + min;
-}
\ No newline at end of file
+}
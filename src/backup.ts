@@ -0,0 +1,301 @@
+import {
+  Backup,
+  BackupCapture,
+  Capture,
+  CaptureKind,
+  ChannelType,
+  NotificationChannel,
+  Watch,
+} from './types.js';
+import { createAlertState, getWatches, updateWatches } from './watches.js';
+import { getChannels, importChannels, validateChannel } from './channels.js';
+import { validateDetection, validateMonitoring } from './settings.js';
+import {
+  getCapture,
+  restoreCapture,
+  setCaptureKind,
+} from './screenshotStore.js';
+import { base64ToBlob, blobToBase64, evictReferences } from './compare.js';
+import {
+  STORAGE_VERSION,
+  applyMigrations,
+  completeWatch,
+} from './migrations.js';
+
+// Метка файла экспорта
+const BACKUP_FORMAT = 'slotwatch-backup';
+// Допустимые значения в записях файла
+const CHANNEL_TYPES: ChannelType[] = [
+  'telegram',
+  'webhook',
+  'discord',
+  'slack',
+  'ntfy',
+  'gotify',
+  'browser',
+];
+const CAPTURE_KINDS: CaptureKind[] = ['reference', 'baseline', 'check'];
+
+// Снимки эталона и вариантов наблюдения
+function referenceCaptureIds(watch: Watch): string[] {
+  if (!watch.reference) return [];
+  return [
+    watch.reference.screenshotId,
+    ...(watch.reference.baselines || []).map(
+      ({ screenshotId }) => screenshotId
+    ),
+  ];
+}
+
+// Наблюдение без состояния этого браузера: вкладки, расписания проверок,
+// ошибок, калибровки и обучения. Импортированное наблюдение остановлено
+function exportWatch(watch: Watch): Watch {
+  const {
+    tab: _tab,
+    calibration: _calibration,
+    learning: _learning,
+    slots: _slots,
+    ...rest
+  } = watch;
+  const {
+    nextCheckTime: _next,
+    suspendedUntil: _suspended,
+    pausedReason: _paused,
+    lastCheckTime: _checked,
+    lastChangePercentage: _change,
+    lastError: _error,
+    failures: _failures,
+    stalledSince: _stalled,
+    ...monitoring
+  } = watch.monitoring;
+  return {
+    ...rest,
+    monitoring: { ...monitoring, isActive: false },
+    alertState: createAlertState(),
+  };
+}
+
+// Канал без ошибки доставки и, если просили, без токена бота Telegram
+function exportChannel(
+  channel: NotificationChannel,
+  includeTokens: boolean
+): NotificationChannel {
+  const { lastError: _error, ...rest } = channel;
+  if (includeTokens || channel.type !== 'telegram') {
+    return rest;
+  }
+  const { token: _token, ...withoutToken } = rest;
+  return withoutToken;
+}
+
+// Экспорт всех наблюдений, каналов и снимков их эталонов в один файл
+export async function exportBackup(includeTokens: boolean): Promise<Backup> {
+  const [watches, channels] = await Promise.all([getWatches(), getChannels()]);
+
+  const captures: BackupCapture[] = [];
+  for (const id of watches.flatMap(referenceCaptureIds)) {
+    const capture = await getCapture(id);
+    if (capture) {
+      const { blob, changePercentage: _change, ...rest } = capture;
+      captures.push({ ...rest, data: await blobToBase64(blob) });
+    }
+  }
+
+  return {
+    format: BACKUP_FORMAT,
+    version: STORAGE_VERSION,
+    exportedAt: Date.now(),
+    watches: watches.map(exportWatch),
+    channels: channels.map((channel) => exportChannel(channel, includeTokens)),
+    captures,
+  };
+}
+
+// Проверка файла экспорта; null — можно импортировать
+function validateBackup(backup: Partial<Backup> | null): string | null {
+  if (
+    !backup ||
+    typeof backup !== 'object' ||
+    backup.format !== BACKUP_FORMAT
+  ) {
+    return 'Not a SlotWatch Pro export file';
+  }
+  if (
+    typeof backup.version !== 'number' ||
+    !Number.isInteger(backup.version) ||
+    backup.version < 0
+  ) {
+    return 'Unknown export file version';
+  }
+  if (backup.version > STORAGE_VERSION) {
+    return 'The file comes from a newer version of the extension; update it first';
+  }
+  if (
+    !Array.isArray(backup.watches) ||
+    !Array.isArray(backup.channels) ||
+    !Array.isArray(backup.captures)
+  ) {
+    return 'The export file is damaged';
+  }
+  return null;
+}
+
+// Объект с полями (не массив и не null)
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return (
+    Array.isArray(value) && value.every((item) => typeof item === 'string')
+  );
+}
+
+// Наблюдение из файла: обязательные поля, недостающие настройки по
+// умолчанию и те же проверки, что при сохранении. Строка — ошибка
+function importWatch(record: unknown): Watch | string {
+  if (
+    !isRecord(record) ||
+    typeof record.id !== 'string' ||
+    !record.id ||
+    typeof record.name !== 'string' ||
+    typeof record.url !== 'string'
+  ) {
+    return 'A watch in the file is damaged';
+  }
+  const label = `Watch "${record.name}"`;
+  if (
+    (record.monitoring !== undefined && !isRecord(record.monitoring)) ||
+    (record.detection !== undefined && !isRecord(record.detection)) ||
+    (record.channelIds !== undefined && !isStringArray(record.channelIds)) ||
+    (record.reference !== undefined &&
+      (!isRecord(record.reference) ||
+        typeof record.reference.screenshotId !== 'string'))
+  ) {
+    return `${label} is damaged`;
+  }
+
+  const watch = completeWatch(record) as Watch;
+  try {
+    const error =
+      validateMonitoring(watch.monitoring) ||
+      validateDetection(watch.detection);
+    if (error) {
+      return `${label}: ${error}`;
+    }
+  } catch {
+    // Поле не того типа внутри настроек (например, расписание)
+    return `${label} has damaged settings`;
+  }
+  // Импортированное наблюдение остановлено
+  return { ...watch, monitoring: { ...watch.monitoring, isActive: false } };
+}
+
+// Канал из файла: обязательные поля и проверки редактора каналов
+function importChannel(record: unknown): NotificationChannel | string {
+  if (
+    !isRecord(record) ||
+    typeof record.id !== 'string' ||
+    !record.id ||
+    typeof record.name !== 'string' ||
+    !CHANNEL_TYPES.includes(record.type as ChannelType) ||
+    !isStringArray(record.recipients) ||
+    (['token', 'serverUrl', 'template'] as const).some(
+      (key) => record[key] !== undefined && typeof record[key] !== 'string'
+    )
+  ) {
+    return 'A notification channel in the file is damaged';
+  }
+
+  const { lastError: _error, ...channel } =
+    record as unknown as NotificationChannel;
+  // Токен Telegram могли не экспортировать: его подставит importChannels
+  const error = validateChannel(
+    channel.type === 'telegram' && !channel.token
+      ? { ...channel, token: 'omitted' }
+      : channel
+  );
+  return error ? `Channel "${channel.name}": ${error}` : channel;
+}
+
+// Снимок из файла; null — запись повреждена
+function importCapture(record: unknown): Capture | null {
+  if (
+    !isRecord(record) ||
+    typeof record.id !== 'string' ||
+    typeof record.watchId !== 'string' ||
+    typeof record.timestamp !== 'number' ||
+    !CAPTURE_KINDS.includes(record.kind as CaptureKind) ||
+    typeof record.data !== 'string'
+  ) {
+    return null;
+  }
+  const { data, ...capture } = record as unknown as BackupCapture;
+  try {
+    return { ...capture, blob: base64ToBlob(data) };
+  } catch {
+    return null;
+  }
+}
+
+// Все записи или первая ошибка
+function importRecords<T>(
+  records: unknown[],
+  parse: (record: unknown) => T | string
+): T[] {
+  const parsed = records.map(parse);
+  const error = parsed.find((item) => typeof item === 'string');
+  if (typeof error === 'string') {
+    throw new Error(error);
+  }
+  return parsed as T[];
+}
+
+// Импорт: наблюдения и каналы с тем же id заменяются, остальные
+// добавляются. Файл старой версии проходит те же миграции, что и хранилище.
+// Повреждённая запись отменяет весь импорт, пока ничего не записано
+export async function importBackup(
+  backup: Backup
+): Promise<{ watches: Watch[]; channels: NotificationChannel[] }> {
+  const error = validateBackup(backup);
+  if (error) {
+    throw new Error(error);
+  }
+
+  const migrated = await applyMigrations(
+    { watches: backup.watches, channels: backup.channels },
+    backup.version
+  ).catch(() => {
+    throw new Error('The export file is damaged');
+  });
+  const watches = importRecords(migrated.watches || [], importWatch);
+  const imported = importRecords(migrated.channels || [], importChannel);
+  const ids = new Set(watches.map(({ id }) => id));
+  const captures = importRecords(
+    backup.captures,
+    (record) => importCapture(record) || 'A screenshot in the file is damaged'
+  ).filter(({ watchId }) => ids.has(watchId));
+
+  // Сначала снимки: на них ссылаются эталоны
+  for (const capture of captures) {
+    await restoreCapture(capture);
+  }
+
+  let replaced: Watch[] = [];
+  await updateWatches((current) => {
+    replaced = current.filter(({ id }) => ids.has(id));
+    return [...current.filter(({ id }) => !ids.has(id)), ...watches];
+  });
+  const channels = await importChannels(imported);
+  // Декодированные эталоны заменённых наблюдений устарели
+  await evictReferences(replaced.map(({ id }) => id));
+
+  // Эталоны заменённых наблюдений остаются в галерее обычными снимками
+  const kept = new Set(watches.flatMap(referenceCaptureIds));
+  for (const id of replaced.flatMap(referenceCaptureIds)) {
+    if (!kept.has(id)) {
+      await setCaptureKind(id, 'check');
+    }
+  }
+  return { watches, channels };
+}
@@ -0,0 +1,153 @@
+import { MessageType, ReferencePreview, WatchStatus } from './types.js';
+import { sendMessage } from './messaging.js';
+import { DEFAULT_LEARNING_MINUTES } from './baselines.js';
+
+// Подписи источников вариантов
+const SOURCE_LABELS = {
+  manual: 'Added',
+  learned: 'Learned',
+};
+
+// DOM элементы
+const baselineSection = document.getElementById(
+  'baselineEditor'
+) as HTMLElement;
+const baselineTitle = document.getElementById('baselineTitle') as HTMLElement;
+const baselineList = document.getElementById('baselineList') as HTMLDivElement;
+const addBaselineBtn = document.getElementById(
+  'addBaselineBtn'
+) as HTMLButtonElement;
+const learnBtn = document.getElementById('learnBtn') as HTMLButtonElement;
+const closeBaselinesBtn = document.getElementById(
+  'closeBaselinesBtn'
+) as HTMLButtonElement;
+
+// Состояние редактора
+let watch: WatchStatus | null = null;
+let onChanged: (() => Promise<WatchStatus | undefined>) | null = null;
+
+// Открытие списка эталонов наблюдения; changed обновляет popup
+// и возвращает свежее состояние наблюдения
+export async function openBaselineEditor(
+  target: WatchStatus,
+  changed: () => Promise<WatchStatus | undefined>
+) {
+  watch = target;
+  onChanged = changed;
+  baselineTitle.textContent = `Baselines: ${target.name}`;
+  baselineSection.hidden = false;
+  await renderBaselines();
+  baselineSection.scrollIntoView({ behavior: 'smooth' });
+}
+
+// Закрытие редактора
+function closeBaselineEditor() {
+  watch = null;
+  onChanged = null;
+  baselineSection.hidden = true;
+}
+
+// Основной эталон и варианты с миниатюрами
+async function renderBaselines() {
+  if (!watch) return;
+
+  const response = await sendMessage(MessageType.GET_REFERENCE, {
+    watchId: watch.id,
+  });
+  if (!response.success) {
+    baselineList.textContent = `Error: ${response.error}`;
+    return;
+  }
+
+  const reference = response.data as ReferencePreview;
+  baselineList.replaceChildren(
+    renderItem(reference.screenshot, 'Reference', reference.timestamp),
+    ...(reference.baselines || []).map((baseline) =>
+      renderItem(
+        reference.baselineScreenshots[baseline.id] || '',
+        SOURCE_LABELS[baseline.source],
+        baseline.timestamp,
+        baseline.id
+      )
+    )
+  );
+
+  const learning = watch.learning && watch.learning.until > Date.now();
+  learnBtn.textContent = learning ? '⏹ Stop Learning' : '📚 Learn';
+}
+
+// Одна миниатюра; основной эталон удалить нельзя
+function renderItem(
+  screenshot: string,
+  label: string,
+  timestamp: number,
+  baselineId?: string
+): HTMLElement {
+  const item = document.createElement('div');
+  item.className = 'baseline';
+
+  const image = document.createElement('img');
+  image.src = screenshot;
+  image.alt = label;
+
+  const caption = document.createElement('div');
+  caption.className = 'info left';
+  caption.textContent = `${label} · ${new Date(timestamp).toLocaleString()}`;
+
+  item.append(image, caption);
+  if (baselineId) {
+    const deleteBtn = document.createElement('button');
+    deleteBtn.className = 'btn btn-small';
+    deleteBtn.textContent = '✕';
+    deleteBtn.title = 'Delete baseline';
+    deleteBtn.addEventListener('click', () =>
+      runAction(MessageType.DELETE_BASELINE, { baselineId })
+    );
+    item.append(deleteBtn);
+  }
+  return item;
+}
+
+// Команда в background, затем обновление списка и popup
+async function runAction(type: MessageType, payload: object = {}) {
+  if (!watch) return;
+
+  const response = await sendMessage(type, { watchId: watch.id, ...payload });
+  if (!response.success) {
+    alert(`Error: ${response.error}`);
+  }
+
+  const fresh = await onChanged?.();
+  if (!fresh) {
+    closeBaselineEditor();
+    return;
+  }
+  watch = fresh;
+  await renderBaselines();
+}
+
+// Старт или остановка обучения
+async function handleLearn() {
+  if (!watch) return;
+
+  if (watch.learning && watch.learning.until > Date.now()) {
+    await runAction(MessageType.STOP_LEARNING);
+    return;
+  }
+
+  const answer = prompt(
+    `Learn the normal variants of "${watch.name}" for how many minutes? Pages that differ from every baseline are added instead of alerting.`,
+    String(DEFAULT_LEARNING_MINUTES)
+  );
+  if (answer === null) return;
+  await runAction(MessageType.START_LEARNING, { minutes: Number(answer) });
+}
+
+// Обработчики событий
+addBaselineBtn.addEventListener('click', async () => {
+  addBaselineBtn.disabled = true;
+  await runAction(MessageType.ADD_BASELINE);
+  addBaselineBtn.disabled = false;
+});
+learnBtn.addEventListener('click', handleLearn);
+closeBaselinesBtn.addEventListener('click', closeBaselineEditor);
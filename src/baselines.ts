@@ -0,0 +1,43 @@
+import { Baseline, ReferenceSnapshot } from './types.js';
+
+// Предел дополнительных эталонов (каждый — полный скриншот)
+export const MAX_BASELINES = 10;
+// Длительность обучения по умолчанию и максимум, минуты
+export const DEFAULT_LEARNING_MINUTES = 60;
+export const MAX_LEARNING_MINUTES = 7 * 24 * 60;
+
+// Можно ли добавить ещё один вариант
+export function canAddBaseline(reference: ReferenceSnapshot): boolean {
+  return (reference.baselines?.length ?? 0) < MAX_BASELINES;
+}
+
+// Эталон с новым принятым вариантом
+export function addBaseline(
+  reference: ReferenceSnapshot,
+  screenshotId: string,
+  source: Baseline['source']
+): ReferenceSnapshot {
+  const baseline: Baseline = {
+    id: crypto.randomUUID(),
+    timestamp: Date.now(),
+    screenshotId,
+    source,
+  };
+  return {
+    ...reference,
+    baselines: [...(reference.baselines || []), baseline],
+  };
+}
+
+// Эталон без варианта
+export function removeBaseline(
+  reference: ReferenceSnapshot,
+  baselineId: string
+): ReferenceSnapshot {
+  return {
+    ...reference,
+    baselines: (reference.baselines || []).filter(
+      ({ id }) => id !== baselineId
+    ),
+  };
+}
@@ -0,0 +1,110 @@
+import { CalibrationResult, CompareAlgorithm, Rect } from './types.js';
+import { buildMaskMap, colorDelta, maxColorDelta } from './algorithms.js';
+import { CELL_SIZE, cellGrid, findCellComponents } from './diffImage.js';
+
+// Проверок калибровки по умолчанию и максимум
+export const DEFAULT_CALIBRATION_SAMPLES = 10;
+export const MAX_CALIBRATION_SAMPLES = 50;
+// Ячейка «шумит», если в ней изменилось столько пикселей
+const NOISY_CELL_PIXELS = 8;
+// Область всегда меняется, если шумит в такой доле проверок
+const ALWAYS_CHANGED_SHARE = 0.8;
+// Запас порога над наблюдаемым шумом
+const THRESHOLD_MARGIN = 1.5;
+const MIN_THRESHOLD = 0.5;
+
+// Сколько раз каждая ячейка сетки менялась за калибровку
+export interface NoiseMap {
+  width: number;
+  height: number;
+  counts: Uint16Array;
+  samples: number;
+}
+
+// Пустая карта шума для скриншота заданного размера
+export function createNoiseMap(width: number, height: number): NoiseMap {
+  const { cols, rows } = cellGrid(width, height);
+  return { width, height, counts: new Uint16Array(cols * rows), samples: 0 };
+}
+
+// Ячейки сетки, где в области изменилось заметно много пикселей
+export function noisyCells(
+  reference: ImageData,
+  current: ImageData,
+  area: Rect,
+  masks: Rect[],
+  tolerance: number
+): number[] {
+  const { width, height } = reference;
+  const { cols } = cellGrid(width, height);
+  const maskMap = buildMaskMap(width, height, masks);
+  const maxDelta = maxColorDelta(tolerance);
+  const changedPixels = new Map<number, number>();
+
+  for (let y = area.y; y < area.y + area.height; y++) {
+    for (let x = area.x; x < area.x + area.width; x++) {
+      const pos = y * width + x;
+      if (maskMap[pos]) continue;
+      if (
+        colorDelta(reference.data, current.data, pos * 4, pos * 4) > maxDelta
+      ) {
+        const cell =
+          Math.floor(y / CELL_SIZE) * cols + Math.floor(x / CELL_SIZE);
+        changedPixels.set(cell, (changedPixels.get(cell) ?? 0) + 1);
+      }
+    }
+  }
+
+  return Array.from(changedPixels)
+    .filter(([, count]) => count >= NOISY_CELL_PIXELS)
+    .map(([cell]) => cell);
+}
+
+// Учитываем одну проверку: какие ячейки области изменились
+export function addNoiseSample(map: NoiseMap, cells: number[]) {
+  for (const cell of cells) {
+    map.counts[cell] = (map.counts[cell] ?? 0) + 1;
+  }
+  map.samples++;
+}
+
+// Маски для областей, которые меняются почти при каждой проверке
+export function suggestMasks(map: NoiseMap): Rect[] {
+  if (map.samples === 0) return [];
+
+  const minCount = Math.ceil(map.samples * ALWAYS_CHANGED_SHARE);
+  const always = map.counts.map((count) => (count >= minCount ? 1 : 0));
+  return findCellComponents(always, map.width, map.height).map(
+    (component) => component.rect
+  );
+}
+
+// Итог калибровки: статистика шума и рекомендуемый порог
+export function summarizeCalibration(
+  samples: number[],
+  masks: Rect[],
+  algorithm: CompareAlgorithm
+): CalibrationResult {
+  const mean =
+    samples.reduce((sum, value) => sum + value, 0) / (samples.length || 1);
+  const variance =
+    samples.reduce((sum, value) => sum + (value - mean) ** 2, 0) /
+    (samples.length || 1);
+  const max = Math.max(0, ...samples);
+
+  // Выше максимума шума с запасом и выше его разброса
+  const threshold = Math.max(
+    MIN_THRESHOLD,
+    max * THRESHOLD_MARGIN,
+    mean + 4 * Math.sqrt(variance)
+  );
+
+  return {
+    samples,
+    mean: parseFloat(mean.toFixed(2)),
+    max: parseFloat(max.toFixed(2)),
+    suggestedThreshold: Math.min(100, Math.ceil(threshold * 10) / 10),
+    suggestedMasks: masks,
+    algorithm,
+  };
+}
@@ -0,0 +1,291 @@
+import { ChannelType, MessageType, NotificationChannel } from './types.js';
+import { sendMessage } from './messaging.js';
+
+// Подписи полей формы для каждого типа канала
+interface ChannelForm {
+  label: string;
+  token?: { label: string; placeholder: string };
+  server?: { label: string; placeholder: string };
+  recipients?: { label: string; placeholder: string };
+  template?: boolean;
+}
+
+const CHANNEL_FORMS: Record<ChannelType, ChannelForm> = {
+  telegram: {
+    label: 'Telegram',
+    token: { label: 'Bot Token:', placeholder: '1234567890:ABC...' },
+    server: {
+      label: 'Bot API URL (optional):',
+      placeholder: 'https://api.telegram.org',
+    },
+    recipients: { label: 'Chat IDs (one per line):', placeholder: '123456789' },
+  },
+  webhook: {
+    label: 'JSON webhook',
+    recipients: {
+      label: 'Webhook URLs (one per line):',
+      placeholder: 'https://example.com/hook',
+    },
+    template: true,
+  },
+  discord: {
+    label: 'Discord',
+    recipients: {
+      label: 'Webhook URLs (one per line):',
+      placeholder: 'https://discord.com/api/webhooks/...',
+    },
+  },
+  slack: {
+    label: 'Slack',
+    recipients: {
+      label: 'Webhook URLs (one per line):',
+      placeholder: 'https://hooks.slack.com/services/...',
+    },
+  },
+  ntfy: {
+    label: 'ntfy',
+    server: { label: 'Server URL (optional):', placeholder: 'https://ntfy.sh' },
+    recipients: { label: 'Topics (one per line):', placeholder: 'slotwatch' },
+    token: { label: 'Access token (optional):', placeholder: 'tk_...' },
+  },
+  gotify: {
+    label: 'Gotify',
+    server: { label: 'Server URL:', placeholder: 'https://gotify.example.com' },
+    recipients: {
+      label: 'Application tokens (one per line):',
+      placeholder: 'AbCdEf...',
+    },
+  },
+  browser: {
+    label: 'Browser',
+  },
+};
+
+// DOM элементы
+const channelList = document.getElementById('channelList') as HTMLDivElement;
+const channelTypeSelect = document.getElementById(
+  'channelType'
+) as HTMLSelectElement;
+const channelNameInput = document.getElementById(
+  'channelName'
+) as HTMLInputElement;
+const channelTokenGroup = document.getElementById(
+  'channelTokenGroup'
+) as HTMLDivElement;
+const channelTokenLabel = document.getElementById(
+  'channelTokenLabel'
+) as HTMLLabelElement;
+const channelTokenInput = document.getElementById(
+  'channelToken'
+) as HTMLInputElement;
+const channelServerGroup = document.getElementById(
+  'channelServerGroup'
+) as HTMLDivElement;
+const channelServerLabel = document.getElementById(
+  'channelServerLabel'
+) as HTMLLabelElement;
+const channelServerInput = document.getElementById(
+  'channelServer'
+) as HTMLInputElement;
+const channelRecipientsGroup = document.getElementById(
+  'channelRecipientsGroup'
+) as HTMLDivElement;
+const channelRecipientsLabel = document.getElementById(
+  'channelRecipientsLabel'
+) as HTMLLabelElement;
+const channelRecipientsInput = document.getElementById(
+  'channelRecipients'
+) as HTMLTextAreaElement;
+const channelTemplateGroup = document.getElementById(
+  'channelTemplateGroup'
+) as HTMLDivElement;
+const channelTemplateInput = document.getElementById(
+  'channelTemplate'
+) as HTMLTextAreaElement;
+const saveChannelBtn = document.getElementById(
+  'saveChannelBtn'
+) as HTMLButtonElement;
+const cancelChannelBtn = document.getElementById(
+  'cancelChannelBtn'
+) as HTMLButtonElement;
+
+// Состояние
+let editingId: string | null = null;
+let onChanged: () => void = () => undefined;
+
+// Подключение редактора каналов к popup
+export function initChannelEditor(changed: () => void) {
+  onChanged = changed;
+  channelTypeSelect.addEventListener('change', () => applyFormLayout());
+  saveChannelBtn.addEventListener('click', handleSaveChannel);
+  cancelChannelBtn.addEventListener('click', resetForm);
+  applyFormLayout();
+}
+
+// Показываем только поля выбранного типа
+function applyFormLayout() {
+  const form = CHANNEL_FORMS[channelTypeSelect.value as ChannelType];
+
+  channelTokenGroup.hidden = !form.token;
+  channelTokenLabel.textContent = form.token?.label || '';
+  channelTokenInput.placeholder = form.token?.placeholder || '';
+
+  channelServerGroup.hidden = !form.server;
+  channelServerLabel.textContent = form.server?.label || '';
+  channelServerInput.placeholder = form.server?.placeholder || '';
+
+  channelRecipientsGroup.hidden = !form.recipients;
+  channelRecipientsLabel.textContent = form.recipients?.label || '';
+  channelRecipientsInput.placeholder = form.recipients?.placeholder || '';
+
+  channelTemplateGroup.hidden = !form.template;
+}
+
+// Отрисовка списка каналов
+export function renderChannels(channels: NotificationChannel[]) {
+  channelList.replaceChildren();
+
+  if (channels.length === 0) {
+    const empty = document.createElement('div');
+    empty.className = 'info';
+    empty.textContent = 'No channels yet';
+    channelList.append(empty);
+    return;
+  }
+
+  for (const channel of channels) {
+    const card = document.createElement('div');
+    card.className = 'watch';
+
+    const title = document.createElement('div');
+    title.textContent = `${channel.name} · ${CHANNEL_FORMS[channel.type].label}`;
+
+    const actions = document.createElement('div');
+    actions.className = 'watch-actions';
+
+    const testBtn = document.createElement('button');
+    testBtn.className = 'btn btn-primary';
+    testBtn.textContent = 'Send Test';
+    testBtn.addEventListener('click', () => handleTest(channel, testBtn));
+
+    const editBtn = document.createElement('button');
+    editBtn.className = 'btn btn-small';
+    editBtn.textContent = 'Edit';
+    editBtn.addEventListener('click', () => editChannel(channel));
+
+    const deleteBtn = document.createElement('button');
+    deleteBtn.className = 'btn btn-small';
+    deleteBtn.textContent = 'Delete';
+    deleteBtn.addEventListener('click', () => handleDelete(channel));
+
+    actions.append(testBtn, editBtn, deleteBtn);
+    card.append(title);
+    if (channel.lastError) {
+      const lastError = document.createElement('div');
+      lastError.className = 'info left watch-error';
+      lastError.textContent = `⚠️ Delivery failed: ${channel.lastError}`;
+      card.append(lastError);
+    }
+    card.append(actions);
+    channelList.append(card);
+  }
+}
+
+// Заполнение формы для редактирования
+function editChannel(channel: NotificationChannel) {
+  editingId = channel.id;
+  channelTypeSelect.value = channel.type;
+  channelNameInput.value = channel.name;
+  channelTokenInput.value = channel.token || '';
+  channelServerInput.value = channel.serverUrl || '';
+  channelRecipientsInput.value = channel.recipients.join('\n');
+  channelTemplateInput.value = channel.template || '';
+  saveChannelBtn.textContent = 'Save Channel';
+  cancelChannelBtn.hidden = false;
+  applyFormLayout();
+}
+
+// Очистка формы
+function resetForm() {
+  editingId = null;
+  channelNameInput.value = '';
+  channelTokenInput.value = '';
+  channelServerInput.value = '';
+  channelRecipientsInput.value = '';
+  channelTemplateInput.value = '';
+  saveChannelBtn.textContent = 'Add Channel';
+  cancelChannelBtn.hidden = true;
+}
+
+// Сбор канала из формы
+function readForm(): NotificationChannel {
+  const type = channelTypeSelect.value as ChannelType;
+  const form = CHANNEL_FORMS[type];
+  const token = channelTokenInput.value.trim();
+  const serverUrl = channelServerInput.value.trim();
+  const template = channelTemplateInput.value.trim();
+
+  return {
+    id: editingId || crypto.randomUUID(),
+    name: channelNameInput.value.trim() || form.label,
+    type,
+    recipients: form.recipients
+      ? channelRecipientsInput.value
+          .split('\n')
+          .map((line) => line.trim())
+          .filter(Boolean)
+      : [],
+    ...(form.token && token && { token }),
+    ...(form.server && serverUrl && { serverUrl }),
+    ...(form.template && template && { template }),
+  };
+}
+
+// Сохранение канала
+async function handleSaveChannel() {
+  const response = await sendMessage(MessageType.SAVE_CHANNEL, {
+    channel: readForm(),
+  });
+
+  if (!response.success) {
+    alert(`Error: ${response.error}`);
+    return;
+  }
+
+  resetForm();
+  onChanged();
+}
+
+// Тестовое уведомление
+async function handleTest(
+  channel: NotificationChannel,
+  button: HTMLButtonElement
+) {
+  button.disabled = true;
+  button.textContent = 'Sending...';
+
+  const response = await sendMessage(MessageType.TEST_CHANNEL, {
+    channelId: channel.id,
+  });
+
+  button.textContent = response.success ? 'Sent!' : 'Failed';
+  if (!response.success) {
+    alert(`Error: ${response.error}`);
+  }
+
+  // Результат теста снимает или ставит отметку об ошибке канала
+  setTimeout(() => {
+    button.textContent = 'Send Test';
+    button.disabled = false;
+    onChanged();
+  }, 2000);
+}
+
+// Удаление канала
+async function handleDelete(channel: NotificationChannel) {
+  if (!confirm(`Delete channel "${channel.name}"?`)) return;
+
+  await sendMessage(MessageType.DELETE_CHANNEL, { channelId: channel.id });
+  if (editingId === channel.id) resetForm();
+  onChanged();
+}
@@ -0,0 +1,176 @@
+import { DeliveryResult, NotificationChannel, StorageData } from './types.js';
+import { updateWatches } from './watches.js';
+
+// Сервер ntfy по умолчанию
+export const DEFAULT_NTFY_SERVER = 'https://ntfy.sh';
+
+// Шаблон тела вебхука по умолчанию
+export const DEFAULT_WEBHOOK_TEMPLATE =
+  '{"title":"{{title}}","watch":"{{watch}}","url":"{{url}}","change":"{{change}}","message":"{{message}}","time":"{{time}}"}';
+
+// Ошибка канала Telegram, импортированного без токена (видна в popup)
+const MISSING_TOKEN_ERROR =
+  'Bot token was left out of the imported file; enter it';
+
+// Очередь записи каналов (как у наблюдений)
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+// Все каналы уведомлений
+export async function getChannels(): Promise<NotificationChannel[]> {
+  const data = (await chrome.storage.local.get(
+    'channels'
+  )) as Partial<StorageData>;
+  return data.channels || [];
+}
+
+// Атомарное изменение списка каналов
+export function updateChannels(
+  update: (channels: NotificationChannel[]) => NotificationChannel[]
+): Promise<NotificationChannel[]> {
+  const result = writeQueue.then(async () => {
+    const channels = update(await getChannels());
+    await chrome.storage.local.set({ channels });
+    return channels;
+  });
+  writeQueue = result.catch(() => undefined);
+  return result;
+}
+
+// Проверка обязательных полей канала
+export function validateChannel(channel: NotificationChannel): string | null {
+  if (!channel.name.trim()) {
+    return 'Channel name is required';
+  }
+
+  switch (channel.type) {
+    case 'telegram':
+      if (!channel.token) return 'Bot token is required';
+      break;
+    case 'gotify':
+      if (!channel.serverUrl) return 'Gotify server URL is required';
+      break;
+    case 'webhook':
+      if (channel.template && !isValidTemplate(channel.template)) {
+        return 'Body template must be valid JSON';
+      }
+      break;
+  }
+
+  if (channel.type !== 'browser' && channel.recipients.length === 0) {
+    return 'At least one recipient is required';
+  }
+
+  for (const url of [
+    ...(channel.serverUrl ? [channel.serverUrl] : []),
+    ...(['webhook', 'discord', 'slack'].includes(channel.type)
+      ? channel.recipients
+      : []),
+  ]) {
+    if (!/^https?:\/\//.test(url)) return `Invalid URL: ${url}`;
+  }
+
+  return null;
+}
+
+// Шаблон должен давать валидный JSON после подстановки значений
+function isValidTemplate(template: string): boolean {
+  try {
+    JSON.parse(template.replace(/\{\{\w+\}\}/g, 'value'));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Добавление или обновление канала
+export async function saveChannel(channel: NotificationChannel) {
+  let isNew = false;
+  await updateChannels((channels) => {
+    isNew = !channels.some((existing) => existing.id === channel.id);
+    return isNew
+      ? [...channels, channel]
+      : channels.map((existing) =>
+          existing.id === channel.id ? channel : existing
+        );
+  });
+
+  // Первый канал включаем во всех наблюдениях без каналов
+  if (isNew) {
+    await updateWatches((watches) =>
+      watches.map((watch) =>
+        watch.channelIds.length === 0
+          ? { ...watch, channelIds: [channel.id] }
+          : watch
+      )
+    );
+  }
+}
+
+// Импортированные каналы: с тем же id заменяются, остальные добавляются
+// (в наблюдения не включаются — их каналы пришли из того же файла).
+// Telegram без токена берёт токен заменяемого канала; если его нет —
+// канал помечается ошибкой. Возвращает каналы в том виде, как записаны
+export async function importChannels(
+  imported: NotificationChannel[]
+): Promise<NotificationChannel[]> {
+  const ids = new Set(imported.map(({ id }) => id));
+  let merged: NotificationChannel[] = [];
+  await updateChannels((channels) => {
+    merged = imported.map((channel) => {
+      if (channel.type !== 'telegram' || channel.token) return channel;
+      const token = channels.find(({ id }) => id === channel.id)?.token;
+      return token
+        ? { ...channel, token }
+        : { ...channel, lastError: MISSING_TOKEN_ERROR };
+    });
+    return [...channels.filter((channel) => !ids.has(channel.id)), ...merged];
+  });
+  return merged;
+}
+
+// Отметка об ошибках каналов: error — новая ошибка, undefined — канал снова
+// доставляет. Пишем, только если что-то изменилось (вызывается на каждой проверке)
+export async function setChannelErrors(
+  errors: Map<string, string | undefined>
+) {
+  const channels = await getChannels();
+  const changed = channels.some(
+    (channel) =>
+      errors.has(channel.id) && errors.get(channel.id) !== channel.lastError
+  );
+  if (!changed) return;
+
+  await updateChannels((current) =>
+    current.map((channel) => {
+      if (!errors.has(channel.id)) return channel;
+      const { lastError: _error, ...rest } = channel;
+      const error = errors.get(channel.id);
+      return error ? { ...rest, lastError: error } : rest;
+    })
+  );
+}
+
+// Ошибки каналов по результатам доставки
+export async function recordDeliveries(deliveries: DeliveryResult[]) {
+  await setChannelErrors(
+    new Map(
+      deliveries.map((delivery) => [
+        delivery.channelId,
+        delivery.success ? undefined : delivery.error || 'Delivery failed',
+      ])
+    )
+  );
+}
+
+// Удаление канала (и из наблюдений)
+export async function deleteChannel(channelId: string) {
+  await updateChannels((channels) =>
+    channels.filter((channel) => channel.id !== channelId)
+  );
+  await updateWatches((watches) =>
+    watches.map((watch) => ({
+      ...watch,
+      channelIds: watch.channelIds.filter((id) => id !== channelId),
+    }))
+  );
+}
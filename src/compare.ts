@@ -0,0 +1,439 @@
+import {
+  CalibrationSample,
+  ComparePayload,
+  ComparisonResult,
+  DetectionConfig,
+  DiffPayload,
+  EvictPayload,
+  ImageAlignment,
+  MessageType,
+  Rect,
+  ReferenceSnapshot,
+  VisualComparison,
+} from './types.js';
+import { ALGORITHMS } from './algorithms.js';
+import { callOffscreen } from './offscreenDocument.js';
+
+// Снимки разного размера совмещаем, если стороны отличаются не больше
+// чем на эту долю (изменение размера окна, подросшая страница)
+const MAX_SIZE_DIFFERENCE = 0.2;
+
+// Декодированный снимок: пиксели в масштабе сравнения и исходный размер
+export interface DecodedImage {
+  data: ImageData;
+  width: number;
+  height: number;
+}
+
+// Снимок, с которым сравнивается страница; id нет у основного эталона
+export interface ReferenceImage {
+  id?: string;
+  image: DecodedImage;
+}
+
+// Эталон и снимок одного размера с областью сравнения
+export interface AlignedImages {
+  reference: ImageData;
+  current: ImageData;
+  area: Rect;
+  masks: Rect[];
+}
+
+// Конвертация base64 (data URL) в Blob
+export function base64ToBlob(base64: string): Blob {
+  const base64Data = base64.includes(',') ? base64.split(',')[1] : base64;
+
+  if (!base64Data) {
+    throw new Error('Invalid base64 data');
+  }
+
+  // Декодируем base64 в бинарные данные
+  const binaryString = atob(base64Data);
+  const bytes = new Uint8Array(binaryString.length);
+  for (let i = 0; i < binaryString.length; i++) {
+    bytes[i] = binaryString.charCodeAt(i);
+  }
+
+  return new Blob([bytes], { type: 'image/png' });
+}
+
+// Конвертация Blob в base64 (data URL)
+export async function blobToBase64(blob: Blob): Promise<string> {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let binary = '';
+  // Кусками: String.fromCharCode не принимает миллионы аргументов
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return `data:${blob.type};base64,${btoa(binary)}`;
+}
+
+// Декодирование снимка с уменьшением: на HiDPI экранах сравнение
+// в полном разрешении в разы дольше, а результат почти тот же
+export async function decodeImage(
+  blob: Blob,
+  scale = 1
+): Promise<DecodedImage> {
+  const bitmap = await createImageBitmap(blob);
+  const { width, height } = bitmap;
+  const scaledWidth = Math.max(1, Math.round(width * scale));
+  const scaledHeight = Math.max(1, Math.round(height * scale));
+
+  const canvas = new OffscreenCanvas(scaledWidth, scaledHeight);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    bitmap.close();
+    throw new Error('Failed to get canvas context');
+  }
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(bitmap, 0, 0, scaledWidth, scaledHeight);
+  bitmap.close();
+  return {
+    data: ctx.getImageData(0, 0, scaledWidth, scaledHeight),
+    width,
+    height,
+  };
+}
+
+// Прямоугольник в масштабе сравнения
+export function scaleRect(rect: Rect, scale: number): Rect {
+  return {
+    x: rect.x * scale,
+    y: rect.y * scale,
+    width: rect.width * scale,
+    height: rect.height * scale,
+  };
+}
+
+// Эталон с областью и масками в масштабе сравнения
+export function scaleReference(
+  reference: ReferenceSnapshot,
+  scale: number
+): ReferenceSnapshot {
+  if (scale === 1) return reference;
+  return {
+    ...reference,
+    ...(reference.region && { region: scaleRect(reference.region, scale) }),
+    ...(reference.masks && {
+      masks: reference.masks.map((mask) => scaleRect(mask, scale)),
+    }),
+  };
+}
+
+// Совмещение в другом масштабе: в исходный размер (его видит background)
+// и обратно в масштаб сравнения (по нему строится карта изменений)
+export function resizeAlignment(
+  alignment: ImageAlignment,
+  scale: number,
+  reference: { width: number; height: number },
+  current: { width: number; height: number }
+): ImageAlignment {
+  const width = Math.min(reference.width, current.width);
+  const height = Math.min(reference.height, current.height);
+  const offset = (value: number, max: number) =>
+    Math.max(0, Math.min(Math.round(value * scale), max));
+  return {
+    refX: offset(alignment.refX, reference.width - width),
+    curX: offset(alignment.curX, current.width - width),
+    width,
+    height,
+  };
+}
+
+// Обрезаем прямоугольник по границам изображения
+export function clampRect(rect: Rect, width: number, height: number): Rect {
+  const clamp = (value: number, max: number) =>
+    Math.max(0, Math.min(Math.round(value), max));
+  const x = clamp(rect.x, width);
+  const y = clamp(rect.y, height);
+  return {
+    x,
+    y,
+    width: clamp(rect.x + rect.width, width) - x,
+    height: clamp(rect.y + rect.height, height) - y,
+  };
+}
+
+// Сравниваемая область (или весь скриншот) и маски в границах изображения
+export function comparisonArea(
+  reference: ReferenceSnapshot,
+  width: number,
+  height: number
+): { area: Rect; masks: Rect[] } {
+  return {
+    area: clampRect(
+      reference.region || { x: 0, y: 0, width, height },
+      width,
+      height
+    ),
+    // Маски (реклама, таймеры, чаты) не участвуют в сравнении
+    masks: (reference.masks || []).map((mask) =>
+      clampRect(mask, width, height)
+    ),
+  };
+}
+
+// Варианты совмещения снимков разного размера: по левому краю, по центру
+// (вёрстка по центру окна) и по правому; по вертикали — всегда сверху.
+// null — размеры слишком разные
+export function alignmentCandidates(
+  reference: ImageData,
+  current: ImageData
+): ImageAlignment[] | null {
+  const width = Math.min(reference.width, current.width);
+  const height = Math.min(reference.height, current.height);
+  const maxWidth = Math.max(reference.width, current.width);
+  const maxHeight = Math.max(reference.height, current.height);
+  if (
+    width < maxWidth * (1 - MAX_SIZE_DIFFERENCE) ||
+    height < maxHeight * (1 - MAX_SIZE_DIFFERENCE)
+  ) {
+    return null;
+  }
+
+  const dx = reference.width - current.width;
+  const offsets = new Set([0, Math.round(dx / 2), dx]);
+  return Array.from(offsets, (offset) => ({
+    refX: Math.max(0, offset),
+    curX: Math.max(0, -offset),
+    width,
+    height,
+  }));
+}
+
+// Вырезаем полосу изображения шириной width от x и высотой height сверху
+function cropImageData(
+  image: ImageData,
+  x: number,
+  width: number,
+  height: number
+): ImageData {
+  const output = new ImageData(width, height);
+  for (let y = 0; y < height; y++) {
+    const start = (y * image.width + x) * 4;
+    output.data.set(
+      image.data.subarray(start, start + width * 4),
+      y * width * 4
+    );
+  }
+  return output;
+}
+
+// Общая часть эталона и снимка; область и маски сдвигаются вместе с эталоном
+export function alignImages(
+  reference: ReferenceSnapshot,
+  refImageData: ImageData,
+  curImageData: ImageData,
+  alignment: ImageAlignment
+): AlignedImages {
+  const { refX, curX, width, height } = alignment;
+  const shift = (rect: Rect): Rect => ({ ...rect, x: rect.x - refX });
+  const shifted: ReferenceSnapshot = {
+    ...reference,
+    ...(reference.region && { region: shift(reference.region) }),
+    ...(reference.masks && { masks: reference.masks.map(shift) }),
+  };
+  return {
+    reference: cropImageData(refImageData, refX, width, height),
+    current: cropImageData(curImageData, curX, width, height),
+    ...comparisonArea(shifted, width, height),
+  };
+}
+
+// Лучшее совпадение снимка с одним из эталонов
+interface SnapshotMatch {
+  changePercentage: number;
+  score: number;
+  alignment?: ImageAlignment;
+  baselineId?: string;
+  image?: DecodedImage;
+}
+
+// Сравнение снимка с одним эталонным изображением; null — размеры
+// слишком разные, чтобы совместить
+function matchSnapshot(
+  reference: ReferenceSnapshot,
+  refImageData: ImageData,
+  curImageData: ImageData,
+  detection: DetectionConfig
+): SnapshotMatch | null {
+  // Размеры различаются: пробуем совместить общую часть снимков
+  const sameSize =
+    refImageData.width === curImageData.width &&
+    refImageData.height === curImageData.height;
+  const candidates = sameSize
+    ? []
+    : alignmentCandidates(refImageData, curImageData);
+  if (!candidates) {
+    return null;
+  }
+
+  // Сравниваем только выбранную область без масок; из вариантов
+  // совмещения берём тот, где снимки совпадают лучше всего
+  const variants: { images: AlignedImages; alignment?: ImageAlignment }[] =
+    sameSize
+      ? [
+          {
+            images: {
+              reference: refImageData,
+              current: curImageData,
+              ...comparisonArea(
+                reference,
+                refImageData.width,
+                refImageData.height
+              ),
+            },
+          },
+        ]
+      : candidates.map((alignment) => ({
+          images: alignImages(reference, refImageData, curImageData, alignment),
+          alignment,
+        }));
+
+  // Процент считается относительно области (без масок), а не всей страницы
+  let best: SnapshotMatch | null = null;
+  for (const { images, alignment } of variants) {
+    const result = ALGORITHMS[detection.algorithm]({
+      ...images,
+      tolerance: detection.tolerance,
+    });
+    if (!best || result.changePercentage < best.changePercentage) {
+      best = { ...result, ...(alignment && { alignment }) };
+    }
+  }
+  return best;
+}
+
+// Сравнение снимка с эталоном выбранным алгоритмом в масштабе
+// detection.compareScale. Страница не изменилась, если совпадает
+// с любым из принятых вариантов
+export function compareImages(
+  reference: ReferenceSnapshot,
+  images: ReferenceImage[],
+  current: DecodedImage,
+  detection: DetectionConfig
+): ComparisonResult {
+  const scaled = scaleReference(reference, detection.compareScale);
+
+  let best: SnapshotMatch | null = null;
+  for (const { id, image } of images) {
+    const match = matchSnapshot(scaled, image.data, current.data, detection);
+    if (match && (!best || match.changePercentage < best.changePercentage)) {
+      best = { ...match, image, ...(id && { baselineId: id }) };
+    }
+  }
+
+  if (!best) {
+    console.warn('Screenshot dimensions differ');
+    return {
+      mode: 'visual',
+      hasChanged: true,
+      changePercentage: 100,
+      detectedText: '',
+      missingPhrases: ['Page layout changed'],
+      appearedPhrases: [],
+      algorithm: detection.algorithm,
+    };
+  }
+
+  const { changePercentage, score, alignment, baselineId, image } = best;
+  const hasChanged = changePercentage > detection.threshold;
+
+  if (hasChanged) {
+    console.log(
+      `Change detected (${detection.algorithm}): ${changePercentage.toFixed(2)}%`
+    );
+  }
+
+  return {
+    mode: 'visual',
+    hasChanged,
+    changePercentage: parseFloat(changePercentage.toFixed(2)),
+    detectedText: '',
+    missingPhrases: hasChanged ? ['Visual changes detected'] : [],
+    appearedPhrases: [],
+    algorithm: detection.algorithm,
+    score: parseFloat(score.toFixed(4)),
+    ...(alignment && {
+      alignment: resizeAlignment(
+        alignment,
+        1 / detection.compareScale,
+        image!,
+        current
+      ),
+    }),
+    ...(baselineId && { baselineId }),
+  };
+}
+
+// Сравнение скриншота с эталоном наблюдения: в offscreen документе,
+// где декодированные эталоны остаются в памяти между проверками
+export async function compareScreenshots(
+  watchId: string,
+  reference: ReferenceSnapshot,
+  screenshot: string,
+  detection: DetectionConfig
+): Promise<VisualComparison> {
+  const payload: ComparePayload = { watchId, reference, screenshot, detection };
+  return await callOffscreen<VisualComparison>(
+    MessageType.COMPARE_SCREENSHOTS,
+    payload,
+    'Failed to compare screenshots'
+  );
+}
+
+// Проверка калибровки тем же путём, что и обычная: в масштабе сравнения,
+// с вариантами эталона и совмещением снимков разного размера
+export async function calibrateScreenshot(
+  watchId: string,
+  reference: ReferenceSnapshot,
+  screenshot: string,
+  detection: DetectionConfig
+): Promise<CalibrationSample> {
+  const payload: ComparePayload = { watchId, reference, screenshot, detection };
+  return await callOffscreen<CalibrationSample>(
+    MessageType.CALIBRATION_SAMPLE,
+    payload,
+    'Failed to compare screenshots'
+  );
+}
+
+// Декодированные эталоны удалённых или заменённых наблюдений освобождают
+// память offscreen документа; документа нет — и кэша нет
+export async function evictReferences(watchIds: string[]) {
+  if (watchIds.length === 0 || !(await chrome.offscreen.hasDocument())) {
+    return;
+  }
+  const payload: EvictPayload = { watchIds };
+  await callOffscreen(
+    MessageType.EVICT_REFERENCES,
+    payload,
+    'Failed to clear reference cache'
+  );
+}
+
+// Карта изменений для уведомления: рисуется в offscreen документе
+// по тем же декодированным снимкам, что и сравнение
+export async function renderDiff(
+  watchId: string,
+  reference: ReferenceSnapshot,
+  screenshot: string,
+  detection: DetectionConfig,
+  comparison: ComparisonResult
+): Promise<Blob | null> {
+  const { alignment, baselineId } = comparison;
+  const payload: DiffPayload = {
+    watchId,
+    reference,
+    screenshot,
+    detection,
+    ...(alignment && { alignment }),
+    ...(baselineId && { baselineId }),
+  };
+  const diff = await callOffscreen<string | null>(
+    MessageType.RENDER_DIFF,
+    payload,
+    'Failed to render diff image'
+  );
+  return diff ? base64ToBlob(diff) : null;
+}
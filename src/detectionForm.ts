@@ -0,0 +1,132 @@
+import {
+  CompareAlgorithm,
+  DetectionConfig,
+  DetectionMode,
+  TextRule,
+} from './types.js';
+import { parseSlotConditions } from './slots.js';
+
+// Подписи условий правил
+const CONDITION_LABELS: [TextRule['condition'], string][] = [
+  ['absent', 'Alert if absent'],
+  ['present', 'Alert if present'],
+];
+
+// DOM элементы формы обнаружения (есть в popup и на странице настроек)
+const detectionModeSelect = document.getElementById(
+  'detectionMode'
+) as HTMLSelectElement;
+const textSelectorInput = document.getElementById(
+  'textSelector'
+) as HTMLInputElement;
+const algorithmSelect = document.getElementById(
+  'algorithm'
+) as HTMLSelectElement;
+const compareScaleSelect = document.getElementById(
+  'compareScale'
+) as HTMLSelectElement;
+const thresholdInput = document.getElementById('threshold') as HTMLInputElement;
+const toleranceInput = document.getElementById('tolerance') as HTMLInputElement;
+const cooldownInput = document.getElementById('cooldown') as HTMLInputElement;
+const rearmDeltaInput = document.getElementById(
+  'rearmDelta'
+) as HTMLInputElement;
+const notifyRecoveryInput = document.getElementById(
+  'notifyRecovery'
+) as HTMLInputElement;
+const slotSelectorInput = document.getElementById(
+  'slotSelector'
+) as HTMLInputElement;
+const slotConditionsInput = document.getElementById(
+  'slotConditions'
+) as HTMLInputElement;
+const ruleList = document.getElementById('ruleList') as HTMLDivElement;
+const addRuleBtn = document.getElementById('addRuleBtn') as HTMLButtonElement;
+
+// Заполнение формы настройками наблюдения
+export function fillDetectionForm(detection: DetectionConfig) {
+  detectionModeSelect.value = detection.mode;
+  textSelectorInput.value = detection.selector;
+  algorithmSelect.value = detection.algorithm;
+  compareScaleSelect.value = String(detection.compareScale);
+  thresholdInput.value = String(detection.threshold);
+  toleranceInput.value = String(detection.tolerance);
+  cooldownInput.value = String(detection.cooldownMinutes);
+  rearmDeltaInput.value = String(detection.rearmDelta);
+  notifyRecoveryInput.checked = detection.notifyRecovery;
+  slotSelectorInput.value = detection.slotSelector;
+  slotConditionsInput.value = detection.slotConditions.join(', ');
+  ruleList.replaceChildren();
+  for (const rule of detection.rules) {
+    ruleList.append(renderRule(rule));
+  }
+  if (detection.rules.length === 0) {
+    ruleList.append(renderRule({ phrase: '', condition: 'absent' }));
+  }
+}
+
+// Настройки обнаружения из формы
+export function readDetectionForm(): DetectionConfig {
+  return {
+    mode: detectionModeSelect.value as DetectionMode,
+    selector: textSelectorInput.value.trim(),
+    rules: collectRules(),
+    slotSelector: slotSelectorInput.value.trim(),
+    slotConditions: parseSlotConditions(slotConditionsInput.value),
+    algorithm: algorithmSelect.value as CompareAlgorithm,
+    compareScale: Number(compareScaleSelect.value),
+    threshold: Number(thresholdInput.value),
+    tolerance: Number(toleranceInput.value),
+    cooldownMinutes: Number(cooldownInput.value),
+    rearmDelta: Number(rearmDeltaInput.value),
+    notifyRecovery: notifyRecoveryInput.checked,
+  };
+}
+
+// Строка одного правила
+function renderRule(rule: TextRule): HTMLElement {
+  const row = document.createElement('div');
+  row.className = 'rule';
+
+  const condition = document.createElement('select');
+  condition.className = 'rule-condition';
+  for (const [value, label] of CONDITION_LABELS) {
+    const option = document.createElement('option');
+    option.value = value;
+    option.textContent = label;
+    condition.append(option);
+  }
+  condition.value = rule.condition;
+
+  const phrase = document.createElement('input');
+  phrase.type = 'text';
+  phrase.className = 'rule-phrase';
+  phrase.placeholder = 'Нет свободных мест';
+  phrase.value = rule.phrase;
+
+  const removeBtn = document.createElement('button');
+  removeBtn.className = 'btn btn-small';
+  removeBtn.textContent = '✕';
+  removeBtn.addEventListener('click', () => row.remove());
+
+  row.append(condition, phrase, removeBtn);
+  return row;
+}
+
+// Сбор правил из формы
+function collectRules(): TextRule[] {
+  return Array.from(ruleList.querySelectorAll('.rule'))
+    .map((row) => ({
+      condition: (row.querySelector('.rule-condition') as HTMLSelectElement)
+        .value as TextRule['condition'],
+      phrase: (
+        row.querySelector('.rule-phrase') as HTMLInputElement
+      ).value.trim(),
+    }))
+    .filter((rule) => rule.phrase);
+}
+
+// Обработчики событий
+addRuleBtn.addEventListener('click', () => {
+  ruleList.append(renderRule({ phrase: '', condition: 'absent' }));
+});
@@ -0,0 +1,205 @@
+import { ImageAlignment, Rect, ReferenceSnapshot } from './types.js';
+import { alignImages, clampRect, comparisonArea } from './compare.js';
+import { buildMaskMap, colorDelta, maxColorDelta } from './algorithms.js';
+
+// Размер ячейки для поиска областей изменений
+export const CELL_SIZE = 16;
+
+// Связная группа ячеек с изменениями
+export interface CellComponent {
+  weight: number;
+  rect: Rect;
+}
+
+// Сетка ячеек для изображения
+export function cellGrid(width: number, height: number) {
+  return {
+    cols: Math.ceil(width / CELL_SIZE),
+    rows: Math.ceil(height / CELL_SIZE),
+  };
+}
+
+// Компоненты связности из ненулевых ячеек (вес — сумма значений)
+export function findCellComponents(
+  weights: ArrayLike<number>,
+  width: number,
+  height: number
+): CellComponent[] {
+  const { cols, rows } = cellGrid(width, height);
+  const visited = new Uint8Array(cols * rows);
+  const components: CellComponent[] = [];
+
+  for (let start = 0; start < weights.length; start++) {
+    if (!weights[start] || visited[start]) continue;
+
+    // Обход компоненты связности в ширину
+    const queue = [start];
+    visited[start] = 1;
+    let weight = 0;
+    let minCol = cols;
+    let minRow = rows;
+    let maxCol = 0;
+    let maxRow = 0;
+
+    while (queue.length > 0) {
+      const cell = queue.pop()!;
+      const col = cell % cols;
+      const row = Math.floor(cell / cols);
+      weight += weights[cell] ?? 0;
+      minCol = Math.min(minCol, col);
+      minRow = Math.min(minRow, row);
+      maxCol = Math.max(maxCol, col);
+      maxRow = Math.max(maxRow, row);
+
+      for (const [dc, dr] of [
+        [1, 0],
+        [-1, 0],
+        [0, 1],
+        [0, -1],
+      ] as const) {
+        const nc = col + dc;
+        const nr = row + dr;
+        if (nc < 0 || nr < 0 || nc >= cols || nr >= rows) continue;
+        const next = nr * cols + nc;
+        if (weights[next] && !visited[next]) {
+          visited[next] = 1;
+          queue.push(next);
+        }
+      }
+    }
+
+    components.push({
+      weight,
+      rect: clampRect(
+        {
+          x: minCol * CELL_SIZE,
+          y: minRow * CELL_SIZE,
+          width: (maxCol - minCol + 1) * CELL_SIZE,
+          height: (maxRow - minRow + 1) * CELL_SIZE,
+        },
+        width,
+        height
+      ),
+    });
+  }
+
+  return components;
+}
+
+// Ячейки с изменениями, соединённые между собой; берём самую «тяжёлую»
+function findMainChangedArea(
+  changed: Uint8Array,
+  width: number,
+  height: number
+): Rect | null {
+  const { cols, rows } = cellGrid(width, height);
+  const counts = new Uint32Array(cols * rows);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (changed[y * width + x]) {
+        const cell =
+          Math.floor(y / CELL_SIZE) * cols + Math.floor(x / CELL_SIZE);
+        counts[cell] = (counts[cell] ?? 0) + 1;
+      }
+    }
+  }
+
+  let best: CellComponent | null = null;
+  for (const component of findCellComponents(counts, width, height)) {
+    if (!best || component.weight > best.weight) best = component;
+  }
+  return best?.rect || null;
+}
+
+// Карта изменений: текущий скриншот бледно, изменённые пиксели красным,
+// основная область изменений — в рамке. Снимки другого размера
+// строятся по общей части, найденной при сравнении (alignment).
+// Эталон, снимки и совмещение — в одном масштабе
+export async function renderDiffImage(
+  reference: ReferenceSnapshot,
+  refImage: ImageData,
+  curImage: ImageData,
+  tolerance: number,
+  alignment?: ImageAlignment
+): Promise<Blob | null> {
+  const sameSize =
+    refImage.width === curImage.width && refImage.height === curImage.height;
+
+  // При другом размере без совмещения попиксельной карты не построить
+  if (!sameSize && !alignment) {
+    return null;
+  }
+  const images = sameSize
+    ? {
+        reference: refImage,
+        current: curImage,
+        ...comparisonArea(reference, curImage.width, curImage.height),
+      }
+    : alignImages(reference, refImage, curImage, alignment!);
+
+  const { reference: refImageData, current: curImageData, area } = images;
+  const { width, height } = curImageData;
+  const maskMap = buildMaskMap(width, height, images.masks);
+  const maxDelta = maxColorDelta(tolerance);
+  const changed = new Uint8Array(width * height);
+  const output = new ImageData(width, height);
+  const cur = curImageData.data;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const pos = y * width + x;
+      const i = pos * 4;
+      const inArea =
+        x >= area.x &&
+        x < area.x + area.width &&
+        y >= area.y &&
+        y < area.y + area.height;
+
+      if (
+        inArea &&
+        !maskMap[pos] &&
+        colorDelta(refImageData.data, cur, i, i) > maxDelta
+      ) {
+        changed[pos] = 1;
+        output.data[i] = 255;
+        output.data[i + 1] = 0;
+        output.data[i + 2] = 0;
+      } else {
+        // Бледная копия текущего скриншота для контекста
+        const gray =
+          (cur[i] ?? 0) * 0.299 +
+          (cur[i + 1] ?? 0) * 0.587 +
+          (cur[i + 2] ?? 0) * 0.114;
+        const faded = 255 - (255 - gray) * (inArea ? 0.35 : 0.15);
+        output.data[i] = faded;
+        output.data[i + 1] = faded;
+        output.data[i + 2] = faded;
+      }
+      output.data[i + 3] = 255;
+    }
+  }
+
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Failed to get canvas context');
+  }
+  ctx.putImageData(output, 0, 0);
+
+  const lineWidth = Math.max(3, Math.round(width / 400));
+  if (reference.region) {
+    ctx.strokeStyle = '#1a73e8';
+    ctx.lineWidth = lineWidth;
+    ctx.strokeRect(area.x, area.y, area.width, area.height);
+  }
+
+  const main = findMainChangedArea(changed, width, height);
+  if (main) {
+    ctx.strokeStyle = '#ff9800';
+    ctx.lineWidth = lineWidth;
+    ctx.strokeRect(main.x, main.y, main.width, main.height);
+  }
+
+  return await canvas.convertToBlob({ type: 'image/png' });
+}
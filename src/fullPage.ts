@@ -0,0 +1,136 @@
+import { base64ToBlob, blobToBase64 } from './compare.js';
+
+// captureVisibleTab разрешает не больше двух снимков в секунду;
+// пауза заодно даёт догрузиться ленивым картинкам после прокрутки
+const SEGMENT_DELAY_MS = 600;
+// Предел высоты склеенного снимка (ограничение размера canvas)
+const MAX_HEIGHT_PX = 16_384;
+
+// Размеры страницы и положение прокрутки
+interface PageMetrics {
+  scrollHeight: number;
+  viewportWidth: number;
+  viewportHeight: number;
+  scrollX: number;
+  scrollY: number;
+}
+
+// Выполняется в странице: размеры документа и окна
+function measurePage(): PageMetrics {
+  return {
+    scrollHeight: Math.max(
+      document.documentElement.scrollHeight,
+      document.body?.scrollHeight ?? 0
+    ),
+    viewportWidth: window.innerWidth,
+    viewportHeight: window.innerHeight,
+    scrollX: window.scrollX,
+    scrollY: window.scrollY,
+  };
+}
+
+// Выполняется в странице: прокрутка к y. Со второго сегмента прячем
+// fixed/sticky элементы, иначе шапка повторится в каждом сегменте
+function scrollPage(y: number, hideFixed: boolean): number {
+  if (hideFixed) {
+    for (const element of Array.from(document.querySelectorAll('body *'))) {
+      if (!(element instanceof HTMLElement)) continue;
+      if (element.hasAttribute('data-slotwatch-visibility')) continue;
+      const { position } = getComputedStyle(element);
+      if (position !== 'fixed' && position !== 'sticky') continue;
+      element.setAttribute(
+        'data-slotwatch-visibility',
+        element.style.getPropertyValue('visibility')
+      );
+      element.style.setProperty('visibility', 'hidden', 'important');
+    }
+  }
+  window.scrollTo({ left: 0, top: y, behavior: 'instant' });
+  return window.scrollY;
+}
+
+// Выполняется в странице: возвращаем элементы и прокрутку
+function restorePage(x: number, y: number) {
+  for (const element of Array.from(
+    document.querySelectorAll<HTMLElement>('[data-slotwatch-visibility]')
+  )) {
+    const visibility = element.getAttribute('data-slotwatch-visibility');
+    element.removeAttribute('data-slotwatch-visibility');
+    if (visibility) {
+      element.style.setProperty('visibility', visibility);
+    } else {
+      element.style.removeProperty('visibility');
+    }
+  }
+  window.scrollTo({ left: x, top: y, behavior: 'instant' });
+}
+
+// Выполнение функции в странице вкладки
+async function runInPage<Args extends unknown[], Result>(
+  tabId: number,
+  func: (...args: Args) => Result,
+  ...args: Args
+): Promise<Result> {
+  const [injection] = await chrome.scripting.executeScript({
+    target: { tabId },
+    func,
+    args,
+  });
+  return injection?.result as Result;
+}
+
+// Снимок всей страницы: прокручиваем, снимаем видимую часть и склеиваем.
+// capture снимает видимую область вкладки
+export async function captureFullPage(
+  tabId: number,
+  capture: () => Promise<string>
+): Promise<string> {
+  const metrics = await runInPage(tabId, measurePage);
+  if (!metrics || metrics.viewportHeight <= 0 || metrics.viewportWidth <= 0) {
+    throw new Error('Could not measure the page');
+  }
+
+  try {
+    let canvas: OffscreenCanvas | undefined;
+    let ctx: OffscreenCanvasRenderingContext2D | null = null;
+    let scale = 1;
+
+    for (let y = 0; ; y += metrics.viewportHeight) {
+      const scrolled = await runInPage(tabId, scrollPage, y, y > 0);
+      await new Promise((resolve) => setTimeout(resolve, SEGMENT_DELAY_MS));
+      const segment = await createImageBitmap(base64ToBlob(await capture()));
+
+      // Масштаб снимка к CSS пикселям (devicePixelRatio, zoom)
+      if (!canvas) {
+        scale = segment.width / metrics.viewportWidth;
+        canvas = new OffscreenCanvas(
+          segment.width,
+          Math.min(
+            Math.round(metrics.scrollHeight * scale),
+            Math.max(segment.height, MAX_HEIGHT_PX)
+          )
+        );
+        ctx = canvas.getContext('2d');
+        if (!ctx) {
+          throw new Error('Failed to get canvas context');
+        }
+      }
+      ctx?.drawImage(segment, 0, Math.round(scrolled * scale));
+
+      // Дошли до конца страницы или до предела высоты
+      const bottom = (scrolled + metrics.viewportHeight) * scale;
+      if (scrolled < y || bottom >= canvas.height) {
+        break;
+      }
+    }
+
+    if (!canvas) {
+      throw new Error('Full page capture failed');
+    }
+    return await blobToBase64(
+      await canvas.convertToBlob({ type: 'image/png' })
+    );
+  } finally {
+    await runInPage(tabId, restorePage, metrics.scrollX, metrics.scrollY);
+  }
+}
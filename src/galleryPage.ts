@@ -0,0 +1,210 @@
+import { Capture, CaptureKind, MessageType, WatchStatus } from './types.js';
+import { sendMessage } from './messaging.js';
+import { listCaptures } from './screenshotStore.js';
+
+// Подписи видов снимков
+const KIND_LABELS: Record<CaptureKind, string> = {
+  reference: '⭐ Reference',
+  baseline: 'Baseline',
+  check: 'Check',
+};
+
+// Фильтр галереи: все снимки, проверки или эталон с вариантами
+type KindFilter = 'all' | 'check' | 'saved';
+
+// DOM элементы
+const watchSelect = document.getElementById(
+  'galleryWatch'
+) as HTMLSelectElement;
+const kindSelect = document.getElementById('galleryKind') as HTMLSelectElement;
+const compareSection = document.getElementById('compareSection') as HTMLElement;
+const comparePanes = document.getElementById('comparePanes') as HTMLDivElement;
+const clearCompareBtn = document.getElementById(
+  'clearCompareBtn'
+) as HTMLButtonElement;
+const galleryCount = document.getElementById('galleryCount') as HTMLElement;
+const captureGrid = document.getElementById('captureGrid') as HTMLDivElement;
+
+// Состояние: снимки выбранного наблюдения, их object URL и выбор для сравнения
+let captures: Capture[] = [];
+const imageUrls = new Map<string, string>();
+let selected: string[] = [];
+
+// Наблюдения; ?watch=<id> выбирает наблюдение сразу
+async function init() {
+  const response = await sendMessage(MessageType.GET_STATUS);
+  if (!response.success) {
+    galleryCount.textContent = `Error: ${response.error}`;
+    return;
+  }
+
+  const watches = response.data as WatchStatus[];
+  for (const watch of watches) {
+    watchSelect.append(new Option(watch.name, watch.id));
+  }
+  if (watches.length === 0) {
+    galleryCount.textContent = 'No watches yet';
+    return;
+  }
+
+  const requested = new URLSearchParams(location.search).get('watch');
+  if (requested && watches.some((watch) => watch.id === requested)) {
+    watchSelect.value = requested;
+  }
+  await loadCaptures();
+}
+
+// Снимки наблюдения из IndexedDB (страница расширения видит ту же базу)
+async function loadCaptures() {
+  for (const url of imageUrls.values()) {
+    URL.revokeObjectURL(url);
+  }
+  imageUrls.clear();
+
+  captures = await listCaptures(watchSelect.value);
+  for (const capture of captures) {
+    imageUrls.set(capture.id, URL.createObjectURL(capture.blob));
+  }
+  selected = selected.filter((id) => imageUrls.has(id));
+  render();
+}
+
+// Снимки под фильтром
+function filteredCaptures(): Capture[] {
+  const filter = kindSelect.value as KindFilter;
+  return captures.filter(({ kind }) =>
+    filter === 'all'
+      ? true
+      : filter === 'check'
+        ? kind === 'check'
+        : kind !== 'check'
+  );
+}
+
+// Подпись снимка: вид, время и процент изменений
+function describeCapture(capture: Capture): string {
+  const parts = [
+    KIND_LABELS[capture.kind],
+    new Date(capture.timestamp).toLocaleString(),
+  ];
+  if (capture.changePercentage !== undefined) {
+    parts.push(`${capture.changePercentage}% changed`);
+  }
+  return parts.join(' · ');
+}
+
+// Перерисовка сетки и сравнения
+function render() {
+  renderGrid();
+  renderCompare();
+}
+
+// Сетка миниатюр
+function renderGrid() {
+  const visible = filteredCaptures();
+  galleryCount.textContent = `Captures (${visible.length})`;
+  captureGrid.replaceChildren(...visible.map(renderCapture));
+}
+
+// Карточка снимка: миниатюра, подпись, выбор для сравнения, «сделать эталоном»
+function renderCapture(capture: Capture): HTMLElement {
+  const item = document.createElement('div');
+  item.className = `capture${selected.includes(capture.id) ? ' selected' : ''}`;
+
+  const image = document.createElement('img');
+  image.src = imageUrls.get(capture.id) || '';
+  image.alt = describeCapture(capture);
+  image.title = 'Open full size';
+  image.addEventListener('click', () => window.open(image.src, '_blank'));
+
+  const caption = document.createElement('div');
+  caption.className = 'info left';
+  caption.textContent = describeCapture(capture);
+
+  const compare = document.createElement('label');
+  compare.className = 'checkbox';
+  const compareInput = document.createElement('input');
+  compareInput.type = 'checkbox';
+  compareInput.checked = selected.includes(capture.id);
+  compareInput.addEventListener('change', () => toggleSelected(capture.id));
+  compare.append(compareInput, ' Compare');
+
+  const actions = document.createElement('div');
+  actions.className = 'watch-actions';
+  actions.append(compare);
+  if (capture.kind !== 'reference') {
+    const promoteBtn = document.createElement('button');
+    promoteBtn.className = 'btn btn-small';
+    promoteBtn.textContent = 'Make Reference';
+    promoteBtn.addEventListener('click', () => handlePromote(capture));
+    actions.append(promoteBtn);
+  }
+
+  item.append(image, caption, actions);
+  return item;
+}
+
+// Выбор для сравнения: не больше двух, третий вытесняет самый ранний выбор
+function toggleSelected(captureId: string) {
+  selected = selected.includes(captureId)
+    ? selected.filter((id) => id !== captureId)
+    : [...selected, captureId].slice(-2);
+  render();
+}
+
+// Два выбранных снимка рядом, более ранний слева
+function renderCompare() {
+  const pair = captures
+    .filter(({ id }) => selected.includes(id))
+    .sort((a, b) => a.timestamp - b.timestamp);
+  compareSection.hidden = pair.length < 2;
+  if (pair.length < 2) return;
+
+  comparePanes.replaceChildren(
+    ...pair.map((capture) => {
+      const pane = document.createElement('div');
+      const image = document.createElement('img');
+      image.src = imageUrls.get(capture.id) || '';
+      image.alt = describeCapture(capture);
+      const caption = document.createElement('div');
+      caption.className = 'info left';
+      caption.textContent = describeCapture(capture);
+      pane.append(caption, image);
+      return pane;
+    })
+  );
+}
+
+// Снимок становится эталоном наблюдения
+async function handlePromote(capture: Capture) {
+  if (
+    !confirm(
+      `Compare future checks against the capture from ${new Date(capture.timestamp).toLocaleString()}?`
+    )
+  ) {
+    return;
+  }
+
+  const response = await sendMessage(MessageType.PROMOTE_CAPTURE, {
+    watchId: capture.watchId,
+    captureId: capture.id,
+  });
+  if (!response.success) {
+    alert(`Error: ${response.error}`);
+    return;
+  }
+  await loadCaptures();
+}
+
+// Обработчики событий
+watchSelect.addEventListener('change', () => {
+  selected = [];
+  loadCaptures();
+});
+kindSelect.addEventListener('change', renderGrid);
+clearCompareBtn.addEventListener('click', () => {
+  selected = [];
+  render();
+});
+
+init();
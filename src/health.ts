@@ -0,0 +1,203 @@
+import {
+  HealthIssue,
+  MonitoringConfig,
+  NotificationChannel,
+  StorageData,
+  Watch,
+} from './types.js';
+import { Notification } from './notifiers.js';
+
+// Alarm сторожа: проверяет, что наблюдения действительно работают
+export const HEALTH_ALARM = 'slotwatch_health';
+const HEALTH_INTERVAL_MIN = 5;
+// Ошибок подряд до health alert по умолчанию и максимум
+export const DEFAULT_FAILURE_LIMIT = 3;
+export const MAX_FAILURE_LIMIT = 20;
+// Запланированная проверка опоздала больше чем на столько — цепочка оборвалась
+const STALE_GRACE_MS = 10 * 60_000;
+// Капча Cloudflare, reCAPTCHA и hCaptcha; учитываются только видимые элементы
+export const DEFAULT_PROBLEM_SELECTORS = [
+  '#challenge-form',
+  '#challenge-stage',
+  'iframe[title*="challenge" i]',
+];
+
+// Очередь записи неполадок (как у наблюдений): сторож, проверки и тест
+// канала вызывают его одновременно, иначе неполадка откроется дважды
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+// Включаем сторожа (alarm переживает перезапуск, но проверим)
+export async function startWatchdog() {
+  if (!(await chrome.alarms.get(HEALTH_ALARM))) {
+    await chrome.alarms.create(HEALTH_ALARM, {
+      delayInMinutes: HEALTH_INTERVAL_MIN,
+      periodInMinutes: HEALTH_INTERVAL_MIN,
+    });
+  }
+}
+
+// Выполняется в странице: HTTP ошибка, капча или «сессия истекла»
+function findProblem(texts: string[], selectors: string[]): string | null {
+  const [navigation] = performance.getEntriesByType('navigation') as (
+    | PerformanceNavigationTiming
+    | undefined
+  )[];
+  const status = navigation?.responseStatus ?? 0;
+  if (status >= 400) {
+    return `HTTP ${status}`;
+  }
+
+  for (const selector of selectors) {
+    const visible = Array.from(document.querySelectorAll(selector)).some(
+      (element) => element.getClientRects().length > 0
+    );
+    if (visible) {
+      return `page matches ${selector}`;
+    }
+  }
+
+  const text = (document.body?.innerText || '').toLowerCase();
+  const phrase = texts.find((item) => text.includes(item.toLowerCase()));
+  return phrase ? `page says "${phrase}"` : null;
+}
+
+// Страница вместо слотов показывает ошибку, капчу или вход; null — всё в порядке
+export async function detectProblemPage(
+  tabId: number,
+  monitoring: MonitoringConfig
+): Promise<string | null> {
+  const [injection] = await chrome.scripting.executeScript({
+    target: { tabId },
+    func: findProblem,
+    args: [monitoring.problemTexts, monitoring.problemSelectors],
+  });
+  return injection?.result ?? null;
+}
+
+// Неполадка наблюдения и её вид (вид входит в ключ оповещения)
+type WatchIssue = { kind: 'failures' | 'stale'; message: string };
+
+function watchIssues(watch: Watch, now: number): WatchIssue[] {
+  const {
+    isActive,
+    failures = 0,
+    failureLimit,
+    lastError,
+    nextCheckTime,
+    stalledSince,
+  } = watch.monitoring;
+  if (!isActive) return [];
+
+  const issues: WatchIssue[] = [];
+  if (failures >= failureLimit) {
+    issues.push({
+      kind: 'failures',
+      message: `${failures} checks in a row failed: ${lastError}`,
+    });
+  }
+  // Перепланированная сторожем проверка не отменяет пропущенную
+  const missed = stalledSince ?? nextCheckTime;
+  if (missed && now - missed > STALE_GRACE_MS) {
+    issues.push({
+      kind: 'stale',
+      message: `Checks stopped: the check planned for ${new Date(missed).toLocaleString()} never ran`,
+    });
+  }
+  return issues;
+}
+
+// Тексты неполадок наблюдения для popup
+export function watchProblems(watch: Watch, now: number): string[] {
+  return watchIssues(watch, now).map(({ message }) => message);
+}
+
+// Все текущие неполадки: наблюдения и каналы уведомлений
+export function collectIssues(
+  watches: Watch[],
+  channels: NotificationChannel[],
+  now: number
+): HealthIssue[] {
+  const issues: HealthIssue[] = [];
+  for (const watch of watches) {
+    for (const { kind, message } of watchIssues(watch, now)) {
+      issues.push({
+        key: `watch:${watch.id}:${kind}`,
+        message,
+        since: now,
+        watchId: watch.id,
+      });
+    }
+  }
+  for (const channel of channels) {
+    if (channel.lastError) {
+      issues.push({
+        key: `channel:${channel.id}`,
+        message: `Notifications to "${channel.name}" fail: ${channel.lastError}`,
+        since: now,
+        channelId: channel.id,
+      });
+    }
+  }
+  return issues;
+}
+
+// Запоминаем неполадки: новые и устранённые с прошлой проверки.
+// Неполадки собираются уже в очереди, чтобы сравнивать свежие данные
+export function updateHealthIssues(
+  collect: () => Promise<HealthIssue[]>
+): Promise<{ opened: HealthIssue[]; resolved: HealthIssue[] }> {
+  const result = writeQueue.then(async () => {
+    const issues = await collect();
+    const data = (await chrome.storage.local.get(
+      'healthIssues'
+    )) as Partial<StorageData>;
+    const known = new Map(
+      (data.healthIssues || []).map((issue) => [issue.key, issue])
+    );
+
+    const opened = issues.filter((issue) => !known.has(issue.key));
+    const current = issues.map((issue) => {
+      const previous = known.get(issue.key);
+      return previous ? { ...issue, since: previous.since } : issue;
+    });
+    const resolved = Array.from(known.values()).filter(
+      (issue) => !issues.some(({ key }) => key === issue.key)
+    );
+
+    if (opened.length > 0 || resolved.length > 0) {
+      await chrome.storage.local.set({ healthIssues: current });
+    }
+    return { opened, resolved };
+  });
+  writeQueue = result.catch(() => undefined);
+  return result;
+}
+
+// Health alert: отличается от оповещения о слотах заголовком и текстом
+export function buildHealthAlert(
+  issue: HealthIssue,
+  watch?: Watch
+): Notification {
+  return {
+    title: '⚠️ SlotWatch Pro: monitoring problem',
+    text: `${watch ? `"${watch.name}" is NOT being watched properly.\n${watch.url}\n\n` : ''}${issue.message}
+
+Fix it in the browser, otherwise new slots will be missed.`,
+    ...(watch && { watchName: watch.name, url: watch.url }),
+    images: [],
+  };
+}
+
+// Неполадка устранена
+export function buildHealthRecovery(
+  issue: HealthIssue,
+  watch?: Watch
+): Notification {
+  const minutes = Math.max(1, Math.round((Date.now() - issue.since) / 60_000));
+  return {
+    title: '✅ SlotWatch Pro: monitoring restored',
+    text: `${watch ? `"${watch.name}": ` : ''}resolved after ${minutes} min: ${issue.message}`,
+    ...(watch && { watchName: watch.name, url: watch.url }),
+    images: [],
+  };
+}
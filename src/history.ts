@@ -0,0 +1,39 @@
+import { CheckRecord, StorageData } from './types.js';
+
+// Сколько последних проверок храним (старые вытесняются)
+export const HISTORY_LIMIT = 5000;
+
+// Очередь записи журнала (как у наблюдений)
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+// Весь журнал, от старых записей к новым
+export async function getHistory(): Promise<CheckRecord[]> {
+  const data = (await chrome.storage.local.get(
+    'history'
+  )) as Partial<StorageData>;
+  return data.history || [];
+}
+
+// Атомарное изменение журнала
+function updateHistory(
+  update: (history: CheckRecord[]) => CheckRecord[]
+): Promise<void> {
+  const result = writeQueue.then(async () => {
+    const history = update(await getHistory());
+    await chrome.storage.local.set({ history });
+  });
+  writeQueue = result.catch(() => undefined);
+  return result;
+}
+
+// Новая запись с ограничением размера журнала
+export function appendHistory(record: CheckRecord): Promise<void> {
+  return updateHistory((history) => [...history, record].slice(-HISTORY_LIMIT));
+}
+
+// Очистка журнала (целиком или одного наблюдения)
+export function clearHistory(watchId?: string): Promise<void> {
+  return updateHistory((history) =>
+    watchId ? history.filter((record) => record.watchId !== watchId) : []
+  );
+}
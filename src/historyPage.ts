@@ -0,0 +1,468 @@
+import { CheckRecord, MessageType, SlotDiff } from './types.js';
+import { sendMessage } from './messaging.js';
+
+// Цвета наблюдений на графике
+const CHART_COLORS = [
+  '#1a73e8',
+  '#ea4335',
+  '#34a853',
+  '#fbbc04',
+  '#9334e6',
+  '#12b5cb',
+];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Фильтр по результату проверки
+type OutcomeFilter = 'all' | 'changed' | 'alerts' | 'errors';
+
+// Непрерывный период, когда страница отличалась от эталона
+interface ChangePeriod {
+  watchName: string;
+  start: number;
+  end?: number; // нет — изменение ещё продолжается
+  maxPercentage: number;
+}
+
+// DOM элементы
+const watchSelect = document.getElementById(
+  'historyWatch'
+) as HTMLSelectElement;
+const outcomeSelect = document.getElementById(
+  'historyOutcome'
+) as HTMLSelectElement;
+const periodSelect = document.getElementById(
+  'historyPeriod'
+) as HTMLSelectElement;
+const exportCsvBtn = document.getElementById(
+  'exportCsvBtn'
+) as HTMLButtonElement;
+const exportJsonBtn = document.getElementById(
+  'exportJsonBtn'
+) as HTMLButtonElement;
+const clearHistoryBtn = document.getElementById(
+  'clearHistoryBtn'
+) as HTMLButtonElement;
+const chartCanvas = document.getElementById(
+  'historyChart'
+) as HTMLCanvasElement;
+const periodList = document.getElementById('periodList') as HTMLDivElement;
+const historyCount = document.getElementById('historyCount') as HTMLElement;
+const historyRows = document.getElementById(
+  'historyRows'
+) as HTMLTableSectionElement;
+
+// Состояние
+let history: CheckRecord[] = [];
+
+// Загрузка журнала
+async function loadHistory() {
+  const response = await sendMessage(MessageType.GET_HISTORY);
+  if (!response.success) {
+    alert(`Error: ${response.error}`);
+    return;
+  }
+
+  history = response.data as CheckRecord[];
+  fillWatchOptions();
+  render();
+}
+
+// Список наблюдений для фильтра (включая удалённые)
+function fillWatchOptions() {
+  const selected = watchSelect.value;
+  const names = new Map<string, string>();
+  for (const record of history) {
+    names.set(record.watchId, record.watchName);
+  }
+
+  watchSelect.replaceChildren(new Option('All watches', ''));
+  for (const [id, name] of names) {
+    watchSelect.append(new Option(name, id));
+  }
+  watchSelect.value = names.has(selected) ? selected : '';
+}
+
+// Записи выбранного наблюдения за выбранный период (от старых к новым)
+function scopedRecords(): CheckRecord[] {
+  const watchId = watchSelect.value;
+  const days = Number(periodSelect.value);
+  const since = days > 0 ? Date.now() - days * DAY_MS : 0;
+
+  return history.filter(
+    (record) =>
+      record.timestamp >= since && (!watchId || record.watchId === watchId)
+  );
+}
+
+// Записи по всем фильтрам
+function filteredRecords(): CheckRecord[] {
+  const outcome = outcomeSelect.value as OutcomeFilter;
+
+  return scopedRecords().filter((record) => {
+    switch (outcome) {
+      case 'changed':
+        return record.hasChanged;
+      case 'alerts':
+        return !!record.alert;
+      case 'errors':
+        return (
+          !!record.error ||
+          !!record.unreliable ||
+          record.deliveries.some((delivery) => !delivery.success)
+        );
+      default:
+        return true;
+    }
+  });
+}
+
+// Перерисовка всего
+function render() {
+  const records = filteredRecords();
+  drawChart(records);
+  // Периоды считаем по всем проверкам, иначе фильтр разорвёт их
+  renderPeriods(findPeriods(scopedRecords()));
+  renderRows(records);
+}
+
+// График процента изменений по времени
+function drawChart(records: CheckRecord[]) {
+  const ctx = chartCanvas.getContext('2d');
+  if (!ctx) return;
+
+  // Canvas в пикселях экрана
+  const bounds = chartCanvas.getBoundingClientRect();
+  chartCanvas.width = Math.max(300, Math.round(bounds.width));
+  const { width, height } = chartCanvas;
+  const padding = { left: 40, right: 10, top: 10, bottom: 24 };
+  const plotWidth = width - padding.left - padding.right;
+  const plotHeight = height - padding.top - padding.bottom;
+
+  ctx.clearRect(0, 0, width, height);
+  ctx.font = '11px sans-serif';
+  ctx.fillStyle = '#888';
+
+  const points = records.filter((record) => record.changePercentage !== null);
+  const first = records[0];
+  const last = records[records.length - 1];
+  if (!first || !last) {
+    ctx.fillText('No checks in this period', padding.left, height / 2);
+    return;
+  }
+
+  const start = first.timestamp;
+  const span = Math.max(1, last.timestamp - start);
+  const maxPercentage = Math.max(
+    5,
+    ...points.map((record) => record.changePercentage ?? 0)
+  );
+  const toX = (time: number) =>
+    padding.left + ((time - start) / span) * plotWidth;
+  const toY = (percentage: number) =>
+    padding.top + plotHeight - (percentage / maxPercentage) * plotHeight;
+
+  // Оси и подписи
+  ctx.strokeStyle = '#dadce0';
+  ctx.beginPath();
+  ctx.moveTo(padding.left, padding.top);
+  ctx.lineTo(padding.left, padding.top + plotHeight);
+  ctx.lineTo(padding.left + plotWidth, padding.top + plotHeight);
+  ctx.stroke();
+  ctx.fillText(`${maxPercentage.toFixed(0)}%`, 4, padding.top + 8);
+  ctx.fillText('0%', 4, padding.top + plotHeight);
+  ctx.fillText(new Date(start).toLocaleString(), padding.left, height - 6);
+  const endLabel = new Date(last.timestamp).toLocaleString();
+  ctx.fillText(
+    endLabel,
+    padding.left + plotWidth - ctx.measureText(endLabel).width,
+    height - 6
+  );
+
+  // Линия на наблюдение
+  const watchIds = [...new Set(records.map((record) => record.watchId))];
+  watchIds.forEach((watchId, index) => {
+    const color = CHART_COLORS[index % CHART_COLORS.length] || '#1a73e8';
+    const series = points.filter((record) => record.watchId === watchId);
+
+    ctx.strokeStyle = color;
+    ctx.lineWidth = 1.5;
+    ctx.beginPath();
+    series.forEach((record, i) => {
+      const x = toX(record.timestamp);
+      const y = toY(record.changePercentage ?? 0);
+      if (i === 0) ctx.moveTo(x, y);
+      else ctx.lineTo(x, y);
+    });
+    ctx.stroke();
+
+    // Срабатывания отмечаем точками
+    ctx.fillStyle = color;
+    for (const record of series) {
+      if (!record.hasChanged) continue;
+      ctx.beginPath();
+      ctx.arc(
+        toX(record.timestamp),
+        toY(record.changePercentage ?? 0),
+        3,
+        0,
+        Math.PI * 2
+      );
+      ctx.fill();
+    }
+  });
+
+  // Ошибки — красные риски на оси времени
+  ctx.strokeStyle = '#ea4335';
+  for (const record of records) {
+    if (!record.error) continue;
+    const x = toX(record.timestamp);
+    ctx.beginPath();
+    ctx.moveTo(x, padding.top + plotHeight);
+    ctx.lineTo(x, padding.top + plotHeight - 6);
+    ctx.stroke();
+  }
+}
+
+// Периоды изменений: от первой изменённой проверки до первой неизменённой
+function findPeriods(records: CheckRecord[]): ChangePeriod[] {
+  const periods: ChangePeriod[] = [];
+  const open = new Map<string, ChangePeriod>();
+
+  for (const record of records) {
+    if (record.changePercentage === null) continue;
+    const current = open.get(record.watchId);
+
+    if (record.hasChanged) {
+      if (current) {
+        current.maxPercentage = Math.max(
+          current.maxPercentage,
+          record.changePercentage
+        );
+      } else {
+        const period = {
+          watchName: record.watchName,
+          start: record.timestamp,
+          maxPercentage: record.changePercentage,
+        };
+        open.set(record.watchId, period);
+        periods.push(period);
+      }
+    } else if (current) {
+      current.end = record.timestamp;
+      open.delete(record.watchId);
+    }
+  }
+  return periods;
+}
+
+// Длительность в читаемом виде
+function formatDuration(ms: number): string {
+  const minutes = Math.round(ms / 60_000);
+  if (minutes < 60) return `${minutes} min`;
+  return `${Math.floor(minutes / 60)} h ${minutes % 60} min`;
+}
+
+// Список периодов изменений
+function renderPeriods(periods: ChangePeriod[]) {
+  periodList.replaceChildren();
+  if (periods.length === 0) {
+    periodList.textContent = 'No changes in this period';
+    return;
+  }
+
+  for (const period of periods.reverse()) {
+    const line = document.createElement('div');
+    const duration = period.end
+      ? formatDuration(period.end - period.start)
+      : 'ongoing';
+    line.textContent = `${new Date(period.start).toLocaleString()} · ${period.watchName} · ${duration} · up to ${period.maxPercentage}%`;
+    periodList.append(line);
+  }
+}
+
+// Описание доставки уведомлений
+function describeDeliveries(record: CheckRecord): string {
+  if (!record.alert) return '';
+  const deliveries = record.deliveries
+    .map((delivery) =>
+      delivery.success
+        ? `✓ ${delivery.channelName}`
+        : delivery.queued
+          ? `⏳ ${delivery.channelName}: ${delivery.error} (queued for retry)`
+          : `✗ ${delivery.channelName}: ${delivery.error}`
+    )
+    .join(', ');
+  return `${record.alert}${deliveries ? ` (${deliveries})` : ''}`;
+}
+
+// Изменения списка слотов
+function describeSlotChanges(slots: SlotDiff): string {
+  const parts = [
+    slots.added.length > 0 && `New: ${slots.added.join(', ')}`,
+    slots.removed.length > 0 && `Gone: ${slots.removed.join(', ')}`,
+  ].filter(Boolean);
+  return parts.length > 0
+    ? parts.join('; ')
+    : `No change (${slots.available.length} available)`;
+}
+
+// Длительность проверки и из чего она сложилась
+function describeDuration(record: CheckRecord): string {
+  const seconds = (ms: number) => `${(ms / 1000).toFixed(1)} s`;
+  const total = seconds(record.durationMs);
+  if (!record.timings) return total;
+
+  const { readyMs, captureMs, decodeMs, compareMs } = record.timings;
+  const parts = [
+    `ready ${seconds(readyMs)}`,
+    captureMs !== undefined && `capture ${seconds(captureMs)}`,
+    decodeMs !== undefined && `decode ${seconds(decodeMs)}`,
+    `compare ${seconds(compareMs)}`,
+  ].filter(Boolean);
+  return `${total} (${parts.join(', ')})`;
+}
+
+// Таблица проверок, новые сверху
+function renderRows(records: CheckRecord[]) {
+  historyCount.textContent = `Checks (${records.length})`;
+  historyRows.replaceChildren();
+
+  for (const record of records.slice().reverse()) {
+    const row = document.createElement('tr');
+    if (record.error) row.className = 'error';
+    else if (record.unreliable) row.className = 'unreliable';
+    else if (record.hasChanged) row.className = 'changed';
+
+    const cells = [
+      new Date(record.timestamp).toLocaleString(),
+      record.watchName,
+      record.error
+        ? `Error: ${record.error}`
+        : record.unreliable
+          ? `Unreliable: ${record.unreliable}`
+          : record.learned
+            ? 'Learned as a new baseline'
+            : record.slots
+              ? describeSlotChanges(record.slots)
+              : record.hasChanged
+                ? 'Changed'
+                : 'No change',
+      record.changePercentage !== null ? `${record.changePercentage}%` : '',
+      record.algorithm
+        ? `${record.algorithm} ${record.score ?? ''}`
+        : record.mode,
+      describeDeliveries(record),
+      describeDuration(record),
+    ];
+
+    for (const text of cells) {
+      const cell = document.createElement('td');
+      cell.textContent = text;
+      row.append(cell);
+    }
+    historyRows.append(row);
+  }
+}
+
+// Значение ячейки CSV
+function csvCell(value: unknown): string {
+  const text = value === undefined || value === null ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Журнал в CSV
+function toCsv(records: CheckRecord[]): string {
+  const header = [
+    'time',
+    'watch',
+    'watch_id',
+    'mode',
+    'changed',
+    'change_percentage',
+    'algorithm',
+    'score',
+    'alert',
+    'deliveries',
+    'error',
+    'unreliable',
+    'slots_added',
+    'slots_removed',
+    'duration_ms',
+    'ready_ms',
+    'capture_ms',
+    'decode_ms',
+    'compare_ms',
+  ];
+  const lines = records.map((record) =>
+    [
+      new Date(record.timestamp).toISOString(),
+      record.watchName,
+      record.watchId,
+      record.mode,
+      record.hasChanged,
+      record.changePercentage,
+      record.algorithm,
+      record.score,
+      record.alert,
+      record.deliveries
+        .map(
+          (delivery) =>
+            `${delivery.channelName}:${delivery.success ? 'ok' : delivery.error}`
+        )
+        .join('; '),
+      record.error,
+      record.unreliable,
+      record.slots?.added.join('; '),
+      record.slots?.removed.join('; '),
+      record.durationMs,
+      record.timings?.readyMs,
+      record.timings?.captureMs,
+      record.timings?.decodeMs,
+      record.timings?.compareMs,
+    ]
+      .map(csvCell)
+      .join(',')
+  );
+  return [header.join(','), ...lines].join('\n');
+}
+
+// Скачивание файла
+function download(content: string, type: string, extension: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `slotwatch-history-${new Date().toISOString().slice(0, 10)}.${extension}`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+// Очистка журнала (выбранного наблюдения или всего)
+async function handleClear() {
+  const watchId = watchSelect.value;
+  const target = watchId
+    ? `history of "${watchSelect.selectedOptions[0]?.textContent}"`
+    : 'the whole history';
+  if (!confirm(`Delete ${target}?`)) return;
+
+  await sendMessage(MessageType.CLEAR_HISTORY, watchId ? { watchId } : {});
+  await loadHistory();
+}
+
+// Обработчики событий
+watchSelect.addEventListener('change', render);
+outcomeSelect.addEventListener('change', render);
+periodSelect.addEventListener('change', render);
+exportCsvBtn.addEventListener('click', () =>
+  download(toCsv(filteredRecords()), 'text/csv', 'csv')
+);
+exportJsonBtn.addEventListener('click', () =>
+  download(
+    JSON.stringify(filteredRecords(), null, 2),
+    'application/json',
+    'json'
+  )
+);
+clearHistoryBtn.addEventListener('click', handleClear);
+window.addEventListener('resize', render);
+
+loadHistory();
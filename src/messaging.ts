@@ -0,0 +1,13 @@
+import { MessageResponse, MessageType } from './types.js';
+
+// Отправка сообщения в background
+export async function sendMessage(
+  type: MessageType,
+  payload?: unknown
+): Promise<MessageResponse> {
+  return new Promise((resolve) => {
+    chrome.runtime.sendMessage({ type, payload }, (response) => {
+      resolve(response || { success: false, error: 'No response' });
+    });
+  });
+}
@@ -0,0 +1,215 @@
+import {
+  Baseline,
+  MonitoringConfig,
+  NotificationChannel,
+  ReferenceSnapshot,
+  StorageData,
+  TelegramConfig,
+  Watch,
+} from './types.js';
+import {
+  createAlertState,
+  createDefaultDetection,
+  createDefaultMonitoring,
+  createWatch,
+  updateWatches,
+} from './watches.js';
+import { updateChannels } from './channels.js';
+import { saveCapture } from './screenshotStore.js';
+
+// Версия схемы хранилища. Новое поле или формат — новый шаг в MIGRATIONS
+// и новая версия, а не значения по умолчанию при каждом чтении
+export const STORAGE_VERSION = 4;
+
+// Единственный alarm проверок до наблюдений (теперь alarm у каждого
+// наблюдения свой, с id в имени)
+const LEGACY_ALARM = 'slotwatch_monitor';
+
+// Ключи, которые меняют миграции (история не меняется)
+const MIGRATED_KEYS = [
+  'watches',
+  'channels',
+  'reference',
+  'monitoring',
+  'telegram',
+] as const;
+
+// Снимок в старом формате: data URL прямо в chrome.storage.local
+type LegacyImage = { screenshot?: string };
+
+// Задержка перезагрузки до версии 4 (её заменило ожидание готовности)
+type LegacyMonitoring = MonitoringConfig & { refreshDelay?: number };
+
+// Данные любой прошлой версии: старые ключи и неполные записи
+export type LegacyData = Partial<Omit<StorageData, 'watches'>> & {
+  watches?: Partial<Watch>[];
+  reference?: ReferenceSnapshot & LegacyImage;
+  monitoring?: MonitoringConfig;
+  telegram?: TelegramConfig;
+};
+
+// Шаг миграции поднимает данные до своей версии
+interface Migration {
+  version: number;
+  migrate: (data: LegacyData) => Promise<LegacyData>;
+}
+
+const MIGRATIONS: Migration[] = [
+  { version: 1, migrate: moveLegacyReference },
+  { version: 2, migrate: moveTelegramSettings },
+  { version: 3, migrate: moveScreenshots },
+  { version: 4, migrate: completeWatches },
+];
+
+// Миграция хранилища при установке и обновлении расширения
+export async function migrateStorage() {
+  // Старый alarm иначе будит service worker впустую
+  await chrome.alarms.clear(LEGACY_ALARM);
+
+  const data = (await chrome.storage.local.get([
+    ...MIGRATED_KEYS,
+    'storageVersion',
+  ])) as LegacyData;
+  const version = data.storageVersion ?? 0;
+  if (version >= STORAGE_VERSION) {
+    return;
+  }
+
+  const migrated = await applyMigrations(data, version);
+  const removed = MIGRATED_KEYS.filter(
+    (key) => key in data && !(key in migrated)
+  );
+  // Через очереди записи хранилищ: проверки и сообщения могут писать туда же
+  const { watches, channels } = migrated;
+  if (watches) {
+    await updateWatches(() => watches as Watch[]);
+  }
+  if (channels) {
+    await updateChannels(() => channels);
+  }
+  await chrome.storage.local.set({ storageVersion: STORAGE_VERSION });
+  if (removed.length > 0) {
+    await chrome.storage.local.remove(removed);
+  }
+  console.log(`Storage migrated from version ${version} to ${STORAGE_VERSION}`);
+}
+
+// Шаги после версии from (данные хранилища или импортируемого файла)
+export async function applyMigrations(
+  data: LegacyData,
+  from: number
+): Promise<LegacyData> {
+  let result = data;
+  for (const { version, migrate } of MIGRATIONS) {
+    if (version > from) {
+      result = await migrate(result);
+    }
+  }
+  return result;
+}
+
+// 1: единственный эталон первой версии становится наблюдением
+async function moveLegacyReference(data: LegacyData): Promise<LegacyData> {
+  const { reference, monitoring, ...rest } = data;
+  if (rest.watches) {
+    return rest;
+  }
+
+  const watches: Watch[] = [];
+  if (reference) {
+    const watch = createWatch('Main', reference.url);
+    watch.reference = reference;
+    if (monitoring) {
+      watch.monitoring = { ...watch.monitoring, ...monitoring };
+    }
+    watches.push(watch);
+  }
+  return { ...rest, watches };
+}
+
+// 2: старые настройки Telegram становятся каналом уведомлений
+async function moveTelegramSettings(data: LegacyData): Promise<LegacyData> {
+  const { telegram, ...rest } = data;
+  if (!telegram?.botToken) {
+    return rest;
+  }
+
+  const channel: NotificationChannel = {
+    id: crypto.randomUUID(),
+    name: 'Telegram',
+    type: 'telegram',
+    token: telegram.botToken,
+    recipients: telegram.chatId ? [telegram.chatId] : [],
+    ...(telegram.apiUrl && { serverUrl: telegram.apiUrl }),
+  };
+  return {
+    ...rest,
+    channels: [...(rest.channels || []), channel],
+    // Как при добавлении первого канала: включаем в наблюдениях без каналов
+    watches: (rest.watches || []).map((watch) =>
+      watch.channelIds?.length ? watch : { ...watch, channelIds: [channel.id] }
+    ),
+  };
+}
+
+// 3: скриншоты эталонов и вариантов переезжают в хранилище снимков
+async function moveScreenshots(data: LegacyData): Promise<LegacyData> {
+  const watches = [];
+  for (const watch of data.watches || []) {
+    const legacy = watch.reference as
+      | (ReferenceSnapshot & LegacyImage)
+      | undefined;
+    if (!watch.id || !legacy?.screenshot) {
+      watches.push(watch);
+      continue;
+    }
+
+    const watchId = watch.id;
+    const { screenshot, baselines = [], ...reference } = legacy;
+    const migratedBaselines = await Promise.all(
+      baselines.map(async (baseline: Baseline & LegacyImage) => {
+        const { screenshot: image, ...rest } = baseline;
+        return image
+          ? {
+              ...rest,
+              screenshotId: await saveCapture(watchId, 'baseline', image),
+            }
+          : rest;
+      })
+    );
+    watches.push({
+      ...watch,
+      reference: {
+        ...reference,
+        screenshotId: await saveCapture(watchId, 'reference', screenshot),
+        ...(migratedBaselines.length > 0 && { baselines: migratedBaselines }),
+      },
+    });
+  }
+  return { ...data, watches };
+}
+
+// Недостающие поля наблюдения — по умолчанию; устаревшая задержка
+// перезагрузки убирается. Нужно и импорту файла текущей версии
+export function completeWatch(watch: Partial<Watch>): Partial<Watch> {
+  const { refreshDelay: _delay, ...monitoring }: LegacyMonitoring = {
+    ...createDefaultMonitoring(),
+    ...(watch.monitoring || {}),
+  };
+  return {
+    ...watch,
+    monitoring,
+    detection: { ...createDefaultDetection(), ...(watch.detection || {}) },
+    channelIds: watch.channelIds || [],
+    alertState: watch.alertState || createAlertState(),
+  };
+}
+
+// 4: наблюдения получают все поля настроек версии 4
+async function completeWatches(data: LegacyData): Promise<LegacyData> {
+  return {
+    ...data,
+    channels: data.channels || [],
+    watches: (data.watches || []).map(completeWatch),
+  };
+}
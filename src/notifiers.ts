@@ -0,0 +1,240 @@
+import { ChannelType, DeliveryResult, NotificationChannel } from './types.js';
+import { DEFAULT_NTFY_SERVER, DEFAULT_WEBHOOK_TEMPLATE } from './channels.js';
+import {
+  TelegramPhoto,
+  sendTelegramMessage,
+  sendTelegramPhotos,
+} from './telegram.js';
+
+// Ограничение Discord на длину сообщения
+const DISCORD_CONTENT_LIMIT = 2000;
+
+// Уведомление, независимое от канала
+export interface Notification {
+  title: string;
+  text: string; // полный текст (без заголовка)
+  watchName?: string;
+  url?: string;
+  changePercentage?: number;
+  images: TelegramPhoto[];
+}
+
+// Отправка уведомления в один канал
+type Notifier = (
+  channel: NotificationChannel,
+  notification: Notification
+) => Promise<void>;
+
+// Ошибка доставки с HTTP статусом и паузой, которую просит сервер (429)
+export type DeliveryError = Error & { status?: number; retryAfter?: number };
+
+// Проверка HTTP ответа
+async function ensureOk(response: Response, label: string) {
+  if (!response.ok) {
+    const body = await response.text().catch(() => '');
+    const retryAfter = Number(response.headers.get('Retry-After'));
+    const error: DeliveryError = Object.assign(
+      new Error(`${label} ${response.status}: ${body.slice(0, 200)}`),
+      {
+        status: response.status,
+        ...(retryAfter > 0 && { retryAfter }),
+      }
+    );
+    throw error;
+  }
+}
+
+// Заголовок и текст одним сообщением
+function fullText(notification: Notification): string {
+  return `${notification.title}\n\n${notification.text}`;
+}
+
+// Telegram: фото с подписью, при ошибке — хотя бы текст
+const notifyTelegram: Notifier = async (channel, notification) => {
+  for (const chatId of channel.recipients) {
+    const config = {
+      botToken: channel.token || '',
+      chatId,
+      ...(channel.serverUrl && { apiUrl: channel.serverUrl }),
+    };
+
+    if (notification.images.length === 0) {
+      await sendTelegramMessage(config, fullText(notification));
+      continue;
+    }
+
+    try {
+      await sendTelegramPhotos(
+        config,
+        notification.images,
+        fullText(notification)
+      );
+    } catch (error) {
+      console.error('Telegram photo error:', error);
+      // Текст важнее картинок
+      await sendTelegramMessage(config, fullText(notification));
+    }
+  }
+};
+
+// Подстановка значений в JSON шаблон (значения экранируются для JSON)
+function renderTemplate(template: string, notification: Notification): string {
+  const values: Record<string, string> = {
+    title: notification.title,
+    message: notification.text,
+    watch: notification.watchName || '',
+    url: notification.url || '',
+    change: String(notification.changePercentage ?? ''),
+    time: new Date().toISOString(),
+  };
+
+  return template.replace(/\{\{(\w+)\}\}/g, (match, key: string) =>
+    key in values ? JSON.stringify(values[key]).slice(1, -1) : match
+  );
+}
+
+// Произвольный JSON вебхук
+const notifyWebhook: Notifier = async (channel, notification) => {
+  const body = renderTemplate(
+    channel.template || DEFAULT_WEBHOOK_TEMPLATE,
+    notification
+  );
+
+  for (const url of channel.recipients) {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body,
+    });
+    await ensureOk(response, 'Webhook');
+  }
+};
+
+// Discord: текст и скриншоты вложениями
+const notifyDiscord: Notifier = async (channel, notification) => {
+  for (const url of channel.recipients) {
+    const form = new FormData();
+    form.append(
+      'payload_json',
+      JSON.stringify({
+        content: fullText(notification).slice(0, DISCORD_CONTENT_LIMIT),
+      })
+    );
+    notification.images.forEach((image, index) => {
+      form.append(`files[${index}]`, image.blob, `${image.name}.png`);
+    });
+
+    const response = await fetch(url, { method: 'POST', body: form });
+    await ensureOk(response, 'Discord');
+  }
+};
+
+// Slack: incoming webhook принимает только текст
+const notifySlack: Notifier = async (channel, notification) => {
+  for (const url of channel.recipients) {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        text: `*${notification.title}*\n${notification.text}`,
+      }),
+    });
+    await ensureOk(response, 'Slack');
+  }
+};
+
+// ntfy: JSON публикация (заголовки HTTP не поддерживают кириллицу)
+const notifyNtfy: Notifier = async (channel, notification) => {
+  const server = (channel.serverUrl || DEFAULT_NTFY_SERVER).replace(/\/+$/, '');
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+  };
+  if (channel.token) headers.Authorization = `Bearer ${channel.token}`;
+
+  for (const topic of channel.recipients) {
+    const response = await fetch(server, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        topic,
+        title: notification.title,
+        message: notification.text,
+        priority: 4,
+        tags: ['rotating_light'],
+        ...(notification.url && { click: notification.url }),
+      }),
+    });
+    await ensureOk(response, 'ntfy');
+  }
+};
+
+// Gotify: получатели — токены приложений
+const notifyGotify: Notifier = async (channel, notification) => {
+  const server = (channel.serverUrl || '').replace(/\/+$/, '');
+
+  for (const appToken of channel.recipients) {
+    const response = await fetch(
+      `${server}/message?token=${encodeURIComponent(appToken)}`,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          title: notification.title,
+          message: notification.text,
+          priority: 8,
+        }),
+      }
+    );
+    await ensureOk(response, 'Gotify');
+  }
+};
+
+// Браузерное уведомление
+const notifyBrowser: Notifier = async (_channel, notification) => {
+  await chrome.notifications.create({
+    type: 'basic',
+    iconUrl: 'icons/icon128.png',
+    title: notification.title,
+    message: notification.text,
+    priority: 2,
+  });
+};
+
+// Реализации по типу канала
+const NOTIFIERS: Record<ChannelType, Notifier> = {
+  telegram: notifyTelegram,
+  webhook: notifyWebhook,
+  discord: notifyDiscord,
+  slack: notifySlack,
+  ntfy: notifyNtfy,
+  gotify: notifyGotify,
+  browser: notifyBrowser,
+};
+
+// Отправка в один канал; ошибка доставки пробрасывается
+export async function sendNotification(
+  channel: NotificationChannel,
+  notification: Notification
+): Promise<void> {
+  await NOTIFIERS[channel.type](channel, notification);
+}
+
+// Отправка в один канал с результатом доставки
+export async function notifyChannel(
+  channel: NotificationChannel,
+  notification: Notification
+): Promise<DeliveryResult> {
+  try {
+    await sendNotification(channel, notification);
+    console.log(`Notification sent: ${channel.name}`);
+    return { channelId: channel.id, channelName: channel.name, success: true };
+  } catch (error) {
+    console.error(`Notification error (${channel.name}):`, error);
+    return {
+      channelId: channel.id,
+      channelName: channel.name,
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
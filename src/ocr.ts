@@ -0,0 +1,14 @@
+import { MessageType, OCRResult, Rect } from './types.js';
+import { callOffscreen } from './offscreenDocument.js';
+
+// Распознавание текста на скриншоте (или в его области)
+export async function recognizeText(
+  image: string,
+  region?: Rect
+): Promise<OCRResult> {
+  return await callOffscreen<OCRResult>(
+    MessageType.OCR_RECOGNIZE,
+    { image, ...(region && { region }) },
+    'OCR failed'
+  );
+}
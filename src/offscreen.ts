@@ -0,0 +1,124 @@
+import { createWorker, OEM, Worker } from 'tesseract.js';
+import {
+  ComparePayload,
+  DiffPayload,
+  EvictPayload,
+  Message,
+  MessageResponse,
+  MessageType,
+  OCRResult,
+  OcrPayload,
+} from './types.js';
+import {
+  calibrationSample,
+  compareWithReference,
+  evictReferences,
+  renderDiff,
+} from './referenceCache.js';
+
+// Список языков, чьи данные copy-files.js положил в сборку
+// (русский — необязательный пакет и может отсутствовать)
+const LANGUAGES_URL = 'tessdata/languages.json';
+
+// Worker создаём один раз: загрузка модели занимает секунды
+let workerPromise: Promise<Worker> | null = null;
+
+// Языки, доступные в сборке
+async function loadLanguages(): Promise<string[]> {
+  const response = await fetch(chrome.runtime.getURL(LANGUAGES_URL));
+  const languages = response.ok ? ((await response.json()) as string[]) : [];
+  if (languages.length === 0) {
+    throw new Error('No OCR language data in the extension build');
+  }
+  return languages;
+}
+
+// Локальный Tesseract без обращений к CDN
+function getWorker(): Promise<Worker> {
+  if (!workerPromise) {
+    workerPromise = loadLanguages().then((languages) =>
+      createWorker(languages, OEM.LSTM_ONLY, {
+        workerPath: chrome.runtime.getURL('tesseract/worker.min.js'),
+        corePath: chrome.runtime.getURL('tesseract/'),
+        langPath: chrome.runtime.getURL('tessdata'),
+        workerBlobURL: false,
+        cacheMethod: 'none',
+      })
+    );
+    workerPromise.catch(() => {
+      workerPromise = null;
+    });
+  }
+  return workerPromise;
+}
+
+// Распознавание скриншота
+async function recognize(payload: OcrPayload): Promise<OCRResult> {
+  const worker = await getWorker();
+  const { data } = await worker.recognize(
+    payload.image,
+    payload.region
+      ? {
+          rectangle: {
+            left: payload.region.x,
+            top: payload.region.y,
+            width: payload.region.width,
+            height: payload.region.height,
+          },
+        }
+      : {}
+  );
+
+  return {
+    text: data.text.trim(),
+    confidence: Math.round(data.confidence),
+  };
+}
+
+// Запросы от background, которые выполняет offscreen документ
+async function handleRequest(message: Message): Promise<unknown> {
+  switch (message.type) {
+    case MessageType.OCR_RECOGNIZE:
+      return await recognize(message.payload as OcrPayload);
+    case MessageType.CALIBRATION_SAMPLE:
+      return await calibrationSample(message.payload as ComparePayload);
+    case MessageType.EVICT_REFERENCES:
+      return evictReferences(message.payload as EvictPayload);
+    case MessageType.RENDER_DIFF:
+      return await renderDiff(message.payload as DiffPayload);
+    default:
+      return await compareWithReference(message.payload as ComparePayload);
+  }
+}
+
+// Запросы, которые выполняет offscreen документ
+const OFFSCREEN_REQUESTS = new Set<MessageType>([
+  MessageType.OCR_RECOGNIZE,
+  MessageType.COMPARE_SCREENSHOTS,
+  MessageType.CALIBRATION_SAMPLE,
+  MessageType.EVICT_REFERENCES,
+  MessageType.RENDER_DIFF,
+]);
+
+// Обработка запросов от background (остальные сообщения не наши)
+chrome.runtime.onMessage.addListener(
+  (message: Message, sender, sendResponse) => {
+    if (!OFFSCREEN_REQUESTS.has(message.type)) {
+      return false;
+    }
+
+    handleRequest(message)
+      .then((result) => {
+        const response: MessageResponse = { success: true, data: result };
+        sendResponse(response);
+      })
+      .catch((error) => {
+        sendResponse({
+          success: false,
+          error:
+            error instanceof Error ? error.message : 'Offscreen request failed',
+        });
+      });
+    return true;
+  }
+);
@@ -0,0 +1,44 @@
+import { MessageResponse, MessageType } from './types.js';
+
+// Offscreen документ: OCR worker и сравнение снимков
+const OFFSCREEN_URL = 'offscreen.html';
+
+// Создание документа уже может идти из параллельной проверки
+let creating: Promise<void> | null = null;
+
+// Service worker не может запускать Worker и засыпает между проверками,
+// поэтому тяжёлая работа и её кэши живут в offscreen документе
+async function ensureOffscreenDocument() {
+  if (await chrome.offscreen.hasDocument()) return;
+
+  if (!creating) {
+    creating = chrome.offscreen
+      .createDocument({
+        url: OFFSCREEN_URL,
+        reasons: [chrome.offscreen.Reason.WORKERS],
+        justification: 'Local OCR and comparison of captured screenshots',
+      })
+      .finally(() => {
+        creating = null;
+      });
+  }
+  await creating;
+}
+
+// Запрос в offscreen документ; failure — текст ошибки без подробностей
+export async function callOffscreen<T>(
+  type: MessageType,
+  payload: unknown,
+  failure: string
+): Promise<T> {
+  await ensureOffscreenDocument();
+
+  const response = (await chrome.runtime.sendMessage({ type, payload })) as
+    | MessageResponse
+    | undefined;
+
+  if (!response?.success) {
+    throw new Error(response?.error || failure);
+  }
+  return response.data as T;
+}
@@ -0,0 +1,257 @@
+import {
+  Backup,
+  MessageType,
+  MonitoringSettings,
+  WatchStatus,
+} from './types.js';
+import { sendMessage } from './messaging.js';
+import { fillDetectionForm, readDetectionForm } from './detectionForm.js';
+import { fillScheduleForm, readScheduleForm } from './scheduleForm.js';
+import { validateDetection, validateMonitoring } from './settings.js';
+
+// DOM элементы
+const watchSelect = document.getElementById(
+  'optionsWatch'
+) as HTMLSelectElement;
+const emptyInfo = document.getElementById('optionsEmpty') as HTMLDivElement;
+const optionsForm = document.getElementById('optionsForm') as HTMLElement;
+const intervalMinInput = document.getElementById(
+  'intervalMin'
+) as HTMLInputElement;
+const intervalMaxInput = document.getElementById(
+  'intervalMax'
+) as HTMLInputElement;
+const autoRefreshInput = document.getElementById(
+  'autoRefresh'
+) as HTMLInputElement;
+const fullPageInput = document.getElementById('fullPage') as HTMLInputElement;
+const settleTimeInput = document.getElementById(
+  'settleTime'
+) as HTMLInputElement;
+const readyTimeoutInput = document.getElementById(
+  'readyTimeout'
+) as HTMLInputElement;
+const readySelectorInput = document.getElementById(
+  'readySelector'
+) as HTMLInputElement;
+const activityPauseInput = document.getElementById(
+  'activityPause'
+) as HTMLInputElement;
+const alertSuspendInput = document.getElementById(
+  'alertSuspend'
+) as HTMLInputElement;
+const failureLimitInput = document.getElementById(
+  'failureLimit'
+) as HTMLInputElement;
+const problemTextsInput = document.getElementById(
+  'problemTexts'
+) as HTMLTextAreaElement;
+const problemSelectorsInput = document.getElementById(
+  'problemSelectors'
+) as HTMLTextAreaElement;
+const captureRetentionInput = document.getElementById(
+  'captureRetention'
+) as HTMLInputElement;
+const saveOptionsBtn = document.getElementById(
+  'saveOptionsBtn'
+) as HTMLButtonElement;
+const optionsStatus = document.getElementById(
+  'optionsStatus'
+) as HTMLDivElement;
+const omitTokensInput = document.getElementById(
+  'omitTokens'
+) as HTMLInputElement;
+const exportBtn = document.getElementById('exportBtn') as HTMLButtonElement;
+const importBtn = document.getElementById('importBtn') as HTMLButtonElement;
+const importFileInput = document.getElementById(
+  'importFile'
+) as HTMLInputElement;
+const backupStatus = document.getElementById('backupStatus') as HTMLDivElement;
+
+// Состояние
+let watches: WatchStatus[] = [];
+
+// Загрузка наблюдений; ?watch=<id> выбирает наблюдение сразу
+async function init() {
+  const response = await sendMessage(MessageType.GET_STATUS);
+  if (!response.success) {
+    optionsStatus.textContent = `Error: ${response.error}`;
+    return;
+  }
+
+  watches = response.data as WatchStatus[];
+  emptyInfo.hidden = watches.length > 0;
+  optionsForm.hidden = watches.length === 0;
+
+  watchSelect.replaceChildren();
+  for (const watch of watches) {
+    watchSelect.append(new Option(watch.name, watch.id));
+  }
+
+  const requested = new URLSearchParams(location.search).get('watch');
+  if (requested && watches.some((watch) => watch.id === requested)) {
+    watchSelect.value = requested;
+  }
+  showWatch();
+}
+
+// Заполнение формы выбранным наблюдением
+function showWatch() {
+  const watch = watches.find((item) => item.id === watchSelect.value);
+  if (!watch) return;
+
+  intervalMinInput.value = String(watch.monitoring.intervalMin);
+  intervalMaxInput.value = String(watch.monitoring.intervalMax);
+  autoRefreshInput.checked = watch.monitoring.autoRefresh;
+  fullPageInput.checked = watch.monitoring.fullPage;
+  settleTimeInput.value = String(watch.monitoring.settleTime);
+  readyTimeoutInput.value = String(watch.monitoring.readyTimeout);
+  readySelectorInput.value = watch.monitoring.readySelector;
+  activityPauseInput.value = String(watch.monitoring.activityPause);
+  alertSuspendInput.value = String(watch.monitoring.alertSuspend);
+  failureLimitInput.value = String(watch.monitoring.failureLimit);
+  problemTextsInput.value = watch.monitoring.problemTexts.join('\n');
+  problemSelectorsInput.value = watch.monitoring.problemSelectors.join('\n');
+  captureRetentionInput.value = String(watch.monitoring.captureRetention);
+  fillScheduleForm(watch.monitoring.schedule);
+  fillDetectionForm(watch.detection);
+  optionsStatus.textContent = watch.monitoring.isActive
+    ? 'Monitoring is running: saved settings apply from the next check.'
+    : '';
+}
+
+// Селектор проверяем здесь: в service worker нет document
+function validateSelector(selector: string): string | null {
+  if (!selector) return null;
+  try {
+    document.querySelector(selector);
+    return null;
+  } catch {
+    return `Invalid CSS selector: ${selector}`;
+  }
+}
+
+// Непустые строки поля
+function readLines(input: HTMLTextAreaElement): string[] {
+  return input.value
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean);
+}
+
+// Сохранение через background
+async function saveOptions() {
+  const watchId = watchSelect.value;
+  const monitoring: MonitoringSettings = {
+    intervalMin: Number(intervalMinInput.value),
+    intervalMax: Number(intervalMaxInput.value),
+    autoRefresh: autoRefreshInput.checked,
+    fullPage: fullPageInput.checked,
+    settleTime: Number(settleTimeInput.value),
+    readyTimeout: Number(readyTimeoutInput.value),
+    readySelector: readySelectorInput.value.trim(),
+    activityPause: Number(activityPauseInput.value),
+    alertSuspend: Number(alertSuspendInput.value),
+    failureLimit: Number(failureLimitInput.value),
+    problemTexts: readLines(problemTextsInput),
+    problemSelectors: readLines(problemSelectorsInput),
+    captureRetention: Number(captureRetentionInput.value),
+    schedule: readScheduleForm(),
+  };
+  const detection = readDetectionForm();
+
+  const error =
+    validateMonitoring(monitoring) ||
+    validateSelector(monitoring.readySelector) ||
+    monitoring.problemSelectors.map(validateSelector).find(Boolean) ||
+    validateDetection(detection);
+  if (error) {
+    optionsStatus.textContent = error;
+    return;
+  }
+
+  saveOptionsBtn.disabled = true;
+  const response = await sendMessage(MessageType.SAVE_SETTINGS, {
+    watchId,
+    monitoring,
+    detection,
+  });
+  saveOptionsBtn.disabled = false;
+
+  if (!response.success) {
+    optionsStatus.textContent = `Error: ${response.error}`;
+    return;
+  }
+
+  // Обновляем локальную копию, чтобы переключение наблюдений не сбрасывало форму
+  watches = watches.map((watch) =>
+    watch.id === watchId
+      ? {
+          ...watch,
+          monitoring: { ...watch.monitoring, ...monitoring },
+          detection,
+        }
+      : watch
+  );
+  optionsStatus.textContent = `Saved at ${new Date().toLocaleTimeString()}`;
+}
+
+// Экспорт в файл
+async function handleExport() {
+  exportBtn.disabled = true;
+  const response = await sendMessage(MessageType.EXPORT_BACKUP, {
+    includeTokens: !omitTokensInput.checked,
+  });
+  exportBtn.disabled = false;
+  if (!response.success) {
+    backupStatus.textContent = `Error: ${response.error}`;
+    return;
+  }
+
+  const backup = response.data as Backup;
+  const url = URL.createObjectURL(
+    new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' })
+  );
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `slotwatch-export-${new Date().toISOString().slice(0, 10)}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+  backupStatus.textContent = `Exported ${backup.watches.length} watches and ${backup.channels.length} channels`;
+}
+
+// Импорт выбранного файла
+async function handleImport() {
+  const file = importFileInput.files?.[0];
+  importFileInput.value = '';
+  if (!file) return;
+
+  let backup: Backup;
+  try {
+    backup = JSON.parse(await file.text()) as Backup;
+  } catch {
+    backupStatus.textContent = 'Error: the file is not valid JSON';
+    return;
+  }
+
+  importBtn.disabled = true;
+  const response = await sendMessage(MessageType.IMPORT_BACKUP, { backup });
+  importBtn.disabled = false;
+  if (!response.success) {
+    backupStatus.textContent = `Error: ${response.error}`;
+    return;
+  }
+
+  const imported = response.data as { watches: number; channels: number };
+  backupStatus.textContent = `Imported ${imported.watches} watches and ${imported.channels} channels`;
+  await init();
+}
+
+// Обработчики событий
+watchSelect.addEventListener('change', showWatch);
+saveOptionsBtn.addEventListener('click', saveOptions);
+exportBtn.addEventListener('click', handleExport);
+importBtn.addEventListener('click', () => importFileInput.click());
+importFileInput.addEventListener('change', handleImport);
+
+init();
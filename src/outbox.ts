@@ -0,0 +1,305 @@
+import {
+  DeliveryResult,
+  NotificationChannel,
+  OutboxDelivery,
+  OutboxEntry,
+  QueuedNotification,
+  StorageData,
+} from './types.js';
+import { DeliveryError, Notification, sendNotification } from './notifiers.js';
+import { getChannels, setChannelErrors } from './channels.js';
+import { deleteImages, getImage, saveImage } from './screenshotStore.js';
+
+// Alarm следующей повторной отправки
+export const OUTBOX_ALARM = 'slotwatch_outbox';
+// Паузы между попытками, секунды; после последней доставка считается
+// неудачной. Alarm срабатывает не чаще раза в 30 с, поэтому меньше нельзя
+const RETRY_DELAYS_SEC = [30, 60, 120, 300, 600, 900, 1800, 3600];
+
+// Очередь записи и очередь отправки: одно уведомление не уходит дважды
+let writeQueue: Promise<unknown> = Promise.resolve();
+let sendQueue: Promise<unknown> = Promise.resolve();
+
+// Все недоставленные уведомления
+export async function getOutbox(): Promise<OutboxEntry[]> {
+  const data = (await chrome.storage.local.get(
+    'outbox'
+  )) as Partial<StorageData>;
+  return data.outbox || [];
+}
+
+// Очередь для popup: без тяжёлых картинок
+export async function getOutboxStatus(): Promise<OutboxEntry[]> {
+  return (await getOutbox()).map((entry) => ({
+    ...entry,
+    notification: { ...entry.notification, images: [] },
+  }));
+}
+
+// Атомарное изменение очереди; уведомления без получателей удаляются
+// вместе с картинками
+function updateOutbox(
+  update: (entries: OutboxEntry[]) => OutboxEntry[]
+): Promise<OutboxEntry[]> {
+  const result = writeQueue.then(async () => {
+    const updated = update(await getOutbox());
+    const outbox = updated.filter((entry) => entry.deliveries.length > 0);
+    await chrome.storage.local.set({ outbox });
+    await deleteImages(
+      updated
+        .filter((entry) => entry.deliveries.length === 0)
+        .flatMap(({ notification }) => notification.images)
+        .map(({ imageId }) => imageId)
+    );
+    return outbox;
+  });
+  writeQueue = result.catch(() => undefined);
+  return result;
+}
+
+// Изменение одной доставки; null — доставка завершена и удаляется
+function updateDelivery(
+  entryId: string,
+  deliveryId: string,
+  update: (delivery: OutboxDelivery) => OutboxDelivery | null
+): Promise<OutboxEntry[]> {
+  return updateOutbox((entries) =>
+    entries.map((entry) =>
+      entry.id !== entryId
+        ? entry
+        : {
+            ...entry,
+            deliveries: entry.deliveries.flatMap((delivery) => {
+              if (delivery.id !== deliveryId) return [delivery];
+              const updated = update(delivery);
+              return updated ? [updated] : [];
+            }),
+          }
+    )
+  );
+}
+
+// Уведомление для storage и обратно; в storage только id картинок
+async function storeNotification(
+  notification: Notification
+): Promise<QueuedNotification> {
+  const { images, ...rest } = notification;
+  return {
+    ...rest,
+    images: await Promise.all(
+      images.map(async ({ name, blob }) => ({
+        name,
+        imageId: await saveImage(blob),
+      }))
+    ),
+  };
+}
+
+// Пропавшую картинку пропускаем: текст важнее
+async function restoreNotification(
+  queued: QueuedNotification
+): Promise<Notification> {
+  const { images, ...rest } = queued;
+  const restored = await Promise.all(
+    images.map(async ({ name, imageId }) => ({
+      name,
+      blob: await getImage(imageId),
+    }))
+  );
+  return {
+    ...rest,
+    images: restored.flatMap(({ name, blob }) =>
+      blob ? [{ name, blob }] : []
+    ),
+  };
+}
+
+// Доставки по одной на получателя: повтор не дублирует сообщение тем,
+// кому оно уже дошло
+function createDeliveries(
+  channels: NotificationChannel[],
+  now: number
+): OutboxDelivery[] {
+  return channels.flatMap((channel) =>
+    (channel.type === 'browser' ? [undefined] : channel.recipients).map(
+      (recipient) => ({
+        id: crypto.randomUUID(),
+        channelId: channel.id,
+        channelName: channel.name,
+        ...(recipient !== undefined && { recipient }),
+        status: 'pending' as const,
+        attempts: 0,
+        nextAttempt: now,
+      })
+    )
+  );
+}
+
+// Постановка уведомления в очередь и первая попытка отправки.
+// Результат по каналам: не дошедшее с первой попытки помечено queued
+export async function deliver(
+  channels: NotificationChannel[],
+  notification: Notification,
+  watchId?: string
+): Promise<DeliveryResult[]> {
+  const entry: OutboxEntry = {
+    id: crypto.randomUUID(),
+    createdAt: Date.now(),
+    ...(watchId && { watchId }),
+    notification: await storeNotification(notification),
+    deliveries: createDeliveries(channels, Date.now()),
+  };
+  await updateOutbox((entries) => [...entries, entry]);
+  await processOutbox(entry.id);
+
+  const left = (await getOutbox()).find(({ id }) => id === entry.id);
+  return channels.map((channel) => {
+    const deliveries = (left?.deliveries || []).filter(
+      ({ channelId }) => channelId === channel.id
+    );
+    const failed = deliveries.find(({ status }) => status === 'failed');
+    const [first] = deliveries;
+    const result = {
+      channelId: channel.id,
+      channelName: channel.name,
+      success: !first,
+    };
+    return first
+      ? {
+          ...result,
+          error: (failed || first).lastError || 'Delivery failed',
+          ...(!failed && { queued: true }),
+        }
+      : result;
+  });
+}
+
+// Отправка наступивших доставок (entryId — только одного уведомления).
+// Вызовы идут по очереди, чтобы сообщение не ушло дважды
+export function processOutbox(entryId?: string): Promise<void> {
+  const result = sendQueue.then(() => sendDue(entryId));
+  sendQueue = result.catch(() => undefined);
+  return result;
+}
+
+async function sendDue(entryId?: string) {
+  const channels = await getChannels();
+  const entries = (await getOutbox()).filter(
+    (entry) => !entryId || entry.id === entryId
+  );
+
+  for (const entry of entries) {
+    const due = entry.deliveries.filter(
+      (delivery) =>
+        delivery.status === 'pending' && delivery.nextAttempt <= Date.now()
+    );
+    if (due.length === 0) continue;
+
+    const notification = await restoreNotification(entry.notification);
+    for (const delivery of due) {
+      await attemptDelivery(entry.id, delivery, notification, channels);
+    }
+  }
+  await scheduleOutbox();
+}
+
+// Одна попытка: доставлено, когда API подтвердил приём
+async function attemptDelivery(
+  entryId: string,
+  delivery: OutboxDelivery,
+  notification: Notification,
+  channels: NotificationChannel[]
+) {
+  const channel = channels.find(({ id }) => id === delivery.channelId);
+  // Канал удалён — доставлять некуда
+  if (!channel) {
+    await updateDelivery(entryId, delivery.id, () => null);
+    return;
+  }
+
+  try {
+    await sendNotification(
+      delivery.recipient !== undefined
+        ? { ...channel, recipients: [delivery.recipient] }
+        : channel,
+      notification
+    );
+    console.log(`Notification delivered: ${channel.name}`);
+    await updateDelivery(entryId, delivery.id, () => null);
+    await setChannelErrors(new Map([[channel.id, undefined]]));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.error(`Notification error (${channel.name}):`, error);
+    const next = nextDeliveryState(delivery, error as DeliveryError, message);
+    await updateDelivery(entryId, delivery.id, () => next);
+    // Ошибку канала (для health alert) ставим, только когда попытки кончились
+    if (next.status === 'failed') {
+      await setChannelErrors(new Map([[channel.id, message]]));
+    }
+  }
+}
+
+// Состояние после неудачной попытки: 429 ждёт сколько просит сервер и не
+// тратит попытку, 4xx (кроме 408) не исправится повтором
+function nextDeliveryState(
+  delivery: OutboxDelivery,
+  error: DeliveryError,
+  message: string
+): OutboxDelivery {
+  const now = Date.now();
+  if (error.retryAfter !== undefined || error.status === 429) {
+    return {
+      ...delivery,
+      lastError: message,
+      nextAttempt: now + (error.retryAfter ?? RETRY_DELAYS_SEC[0]!) * 1000,
+    };
+  }
+
+  const attempts = delivery.attempts + 1;
+  const permanent =
+    error.status !== undefined &&
+    error.status >= 400 &&
+    error.status < 500 &&
+    error.status !== 408;
+  const delay = RETRY_DELAYS_SEC[attempts - 1];
+  if (permanent || delay === undefined) {
+    return { ...delivery, attempts, lastError: message, status: 'failed' };
+  }
+  return {
+    ...delivery,
+    attempts,
+    lastError: message,
+    nextAttempt: now + delay * 1000,
+  };
+}
+
+// Alarm на ближайшую повторную попытку
+export async function scheduleOutbox() {
+  const pending = (await getOutbox())
+    .flatMap(({ deliveries }) => deliveries)
+    .filter(({ status }) => status === 'pending');
+  if (pending.length === 0) {
+    await chrome.alarms.clear(OUTBOX_ALARM);
+    return;
+  }
+  await chrome.alarms.create(OUTBOX_ALARM, {
+    when: Math.min(...pending.map(({ nextAttempt }) => nextAttempt)),
+  });
+}
+
+// Ручной повтор: попытки начинаются заново
+export async function resendDelivery(entryId: string, deliveryId: string) {
+  await updateDelivery(entryId, deliveryId, (delivery) => ({
+    ...delivery,
+    status: 'pending',
+    attempts: 0,
+    nextAttempt: Date.now(),
+  }));
+  await processOutbox(entryId);
+}
+
+// Отказ от доставки
+export async function discardDelivery(entryId: string, deliveryId: string) {
+  await updateDelivery(entryId, deliveryId, () => null);
+  await scheduleOutbox();
+}
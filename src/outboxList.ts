@@ -0,0 +1,93 @@
+import { MessageType, OutboxDelivery, OutboxEntry } from './types.js';
+import { sendMessage } from './messaging.js';
+
+// DOM элементы
+const outboxSection = document.getElementById('outboxSection') as HTMLElement;
+const outboxTitle = document.getElementById('outboxTitle') as HTMLElement;
+const outboxList = document.getElementById('outboxList') as HTMLDivElement;
+
+// Состояние
+let onChanged: () => void = () => undefined;
+
+// Подключение списка к popup
+export function initOutboxList(changed: () => void) {
+  onChanged = changed;
+}
+
+// Недоставленные уведомления; пустой список скрывается
+export function renderOutbox(entries: OutboxEntry[]) {
+  const items = entries.flatMap((entry) =>
+    entry.deliveries.map((delivery) => renderDelivery(entry, delivery))
+  );
+  outboxSection.hidden = items.length === 0;
+  outboxTitle.textContent = `Outgoing Notifications (${items.length})`;
+  outboxList.replaceChildren(...items);
+}
+
+// Состояние доставки
+function describeDelivery(delivery: OutboxDelivery): string {
+  const error = delivery.lastError ? `: ${delivery.lastError}` : '';
+  return delivery.status === 'failed'
+    ? `❌ Failed after ${delivery.attempts} attempt(s)${error}`
+    : `⏳ Next attempt at ${new Date(delivery.nextAttempt).toLocaleTimeString()}${error}`;
+}
+
+// Карточка одной доставки
+function renderDelivery(
+  entry: OutboxEntry,
+  delivery: OutboxDelivery
+): HTMLElement {
+  const card = document.createElement('div');
+  card.className = 'watch';
+
+  const title = document.createElement('div');
+  title.textContent = `${entry.notification.title} → ${delivery.channelName}${delivery.recipient ? ` (${delivery.recipient})` : ''}`;
+
+  const created = document.createElement('div');
+  created.className = 'info left';
+  created.textContent = `Created ${new Date(entry.createdAt).toLocaleString()}`;
+
+  const status = document.createElement('div');
+  status.className = `info left${delivery.status === 'failed' ? ' watch-error' : ''}`;
+  status.textContent = describeDelivery(delivery);
+
+  const actions = document.createElement('div');
+  actions.className = 'watch-actions';
+
+  const resendBtn = document.createElement('button');
+  resendBtn.className = 'btn btn-primary';
+  resendBtn.textContent = delivery.status === 'failed' ? 'Resend' : 'Send Now';
+  resendBtn.addEventListener('click', async () => {
+    resendBtn.disabled = true;
+    resendBtn.textContent = 'Sending...';
+    await runAction(MessageType.RESEND_DELIVERY, entry, delivery);
+  });
+
+  const discardBtn = document.createElement('button');
+  discardBtn.className = 'btn btn-small';
+  discardBtn.textContent = 'Discard';
+  discardBtn.addEventListener('click', () => {
+    if (!confirm('Discard this notification for this recipient?')) return;
+    runAction(MessageType.DISCARD_DELIVERY, entry, delivery);
+  });
+
+  actions.append(resendBtn, discardBtn);
+  card.append(title, created, status, actions);
+  return card;
+}
+
+// Команда в background и обновление popup
+async function runAction(
+  type: MessageType,
+  entry: OutboxEntry,
+  delivery: OutboxDelivery
+) {
+  const response = await sendMessage(type, {
+    entryId: entry.id,
+    deliveryId: delivery.id,
+  });
+  if (!response.success) {
+    alert(`Error: ${response.error}`);
+  }
+  onChanged();
+}
@@ -0,0 +1,137 @@
+import { MonitoringConfig } from './types.js';
+
+// Как часто страница проверяет, что она успокоилась
+const POLL_MS = 100;
+
+// Готовность страницы к снимку
+export interface PageReadiness {
+  ready: boolean;
+  waitedMs: number;
+  reason?: string; // почему страница не готова
+}
+
+// Ожидание status "complete" вкладки
+function waitForTabComplete(tabId: number, timeout: number): Promise<boolean> {
+  return new Promise((resolve) => {
+    const listener = (id: number, info: chrome.tabs.OnUpdatedInfo) => {
+      if (id === tabId && info.status === 'complete') done(true);
+    };
+    const timer = setTimeout(() => done(false), timeout);
+
+    function done(complete: boolean) {
+      clearTimeout(timer);
+      chrome.tabs.onUpdated.removeListener(listener);
+      resolve(complete);
+    }
+
+    chrome.tabs.onUpdated.addListener(listener);
+  });
+}
+
+// Выполняется в странице: ждём селектор, картинки в видимой области
+// и тишину в DOM в течение settleTime
+function waitForSettled(
+  selector: string,
+  settleTime: number,
+  timeout: number,
+  pollMs: number
+): Promise<{ ready: boolean; reason?: string }> {
+  return new Promise((resolve) => {
+    const started = Date.now();
+    let lastMutation = started;
+    const observer = new MutationObserver(() => {
+      lastMutation = Date.now();
+    });
+    observer.observe(document.documentElement, {
+      subtree: true,
+      childList: true,
+      attributes: true,
+      characterData: true,
+    });
+
+    const finish = (ready: boolean, reason?: string) => {
+      observer.disconnect();
+      clearInterval(timer);
+      resolve(reason ? { ready, reason } : { ready });
+    };
+
+    const imagesLoaded = () =>
+      Array.from(document.images).every((image) => {
+        const rect = image.getBoundingClientRect();
+        const visible =
+          rect.bottom > 0 &&
+          rect.right > 0 &&
+          rect.top < window.innerHeight &&
+          rect.left < window.innerWidth;
+        return !visible || image.complete;
+      });
+
+    const timer = setInterval(() => {
+      const now = Date.now();
+      let hasSelector = true;
+      try {
+        hasSelector = !selector || !!document.querySelector(selector);
+      } catch {
+        finish(false, `Invalid selector: ${selector}`);
+        return;
+      }
+
+      if (
+        hasSelector &&
+        document.readyState === 'complete' &&
+        imagesLoaded() &&
+        now - lastMutation >= settleTime
+      ) {
+        finish(true);
+      } else if (now - started >= timeout) {
+        finish(
+          false,
+          !hasSelector
+            ? `Selector ${selector} did not appear`
+            : 'Page kept changing'
+        );
+      }
+    }, pollMs);
+  });
+}
+
+// Перезагрузка (если включена) и ожидание готовности страницы
+export async function preparePage(
+  tabId: number,
+  monitoring: MonitoringConfig
+): Promise<PageReadiness> {
+  const started = Date.now();
+  const elapsed = () => Date.now() - started;
+
+  if (monitoring.autoRefresh) {
+    // Подписываемся до reload, чтобы не пропустить событие
+    const complete = waitForTabComplete(tabId, monitoring.readyTimeout);
+    await chrome.tabs.reload(tabId);
+    if (!(await complete)) {
+      return {
+        ready: false,
+        waitedMs: elapsed(),
+        reason: 'Page load timed out',
+      };
+    }
+  }
+
+  const remaining = Math.max(POLL_MS, monitoring.readyTimeout - elapsed());
+  const [injection] = await chrome.scripting.executeScript({
+    target: { tabId },
+    func: waitForSettled,
+    args: [monitoring.readySelector, monitoring.settleTime, remaining, POLL_MS],
+  });
+  const result = injection?.result as
+    | { ready: boolean; reason?: string }
+    | undefined;
+
+  if (!result) {
+    return {
+      ready: false,
+      waitedMs: elapsed(),
+      reason: 'Page did not respond',
+    };
+  }
+  return { ...result, waitedMs: elapsed() };
+}
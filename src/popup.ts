@@ -1,173 +1,470 @@
 import {
   MessageType,
-  MessageResponse,
-  StorageData,
-  MonitoringConfig,
+  NotificationChannel,
+  OutboxEntry,
+  WatchStatus,
 } from './types.js';
-
+import { DEFAULT_CALIBRATION_SAMPLES } from './calibration.js';
+import { sendMessage } from './messaging.js';
+import { isInSchedule } from './schedule.js';
+import { openReferenceEditor } from './referenceEditor.js';
+import { openRulesEditor } from './rulesEditor.js';
+import { openBaselineEditor } from './baselineEditor.js';
+import { initChannelEditor, renderChannels } from './channelEditor.js';
+import { initOutboxList, renderOutbox } from './outboxList.js';
 
 // DOM элементы
-const captureBtn = document.getElementById('captureBtn') as HTMLButtonElement;
-const toggleBtn = document.getElementById('toggleBtn') as HTMLButtonElement;
-const saveSettingsBtn = document.getElementById(
-  'saveSettingsBtn'
-) as HTMLButtonElement;
-const statusIndicator = document.getElementById(
-  'statusIndicator'
-) as HTMLDivElement;
-const statusText = document.getElementById('statusText') as HTMLSpanElement;
-const lastCheckDiv = document.getElementById('lastCheck') as HTMLDivElement;
-
-const botTokenInput = document.getElementById('botToken') as HTMLInputElement;
-const chatIdInput = document.getElementById('chatId') as HTMLInputElement;
+const addWatchBtn = document.getElementById('addWatchBtn') as HTMLButtonElement;
+const watchNameInput = document.getElementById('watchName') as HTMLInputElement;
+const watchList = document.getElementById('watchList') as HTMLDivElement;
+const historyBtn = document.getElementById('historyBtn') as HTMLButtonElement;
 
+// Интервал обновления прогресса калибровки
+const CALIBRATION_POLL_MS = 2000;
 
 // Состояние
-let isMonitoring = false;
-let hasReference = false;
+let channels: NotificationChannel[] = [];
+let pollTimer: ReturnType<typeof setTimeout> | null = null;
 
 // Инициализация при открытии popup
 async function init() {
-  await loadSettings();
+  initChannelEditor(() => updateStatus());
+  initOutboxList(() => updateStatus());
   await updateStatus();
   attachEventListeners();
 }
 
-// Загрузка сохранённых настроек
-async function loadSettings() {
-  const data = (await chrome.storage.local.get([
-    'telegram',
-    'monitoring',
-    'reference',
-  ])) as Partial<StorageData>;
+// Обновление статуса всех наблюдений и каналов
+async function updateStatus(): Promise<WatchStatus[]> {
+  const channelsResponse = await sendMessage(MessageType.GET_CHANNELS);
+  if (channelsResponse.success && channelsResponse.data) {
+    channels = channelsResponse.data as NotificationChannel[];
+    renderChannels(channels);
+  }
+
+  const outboxResponse = await sendMessage(MessageType.GET_OUTBOX);
+  if (outboxResponse.success && outboxResponse.data) {
+    renderOutbox(outboxResponse.data as OutboxEntry[]);
+  }
+
+  const response = await sendMessage(MessageType.GET_STATUS);
+
+  if (!response.success || !response.data) {
+    return [];
+  }
+  const watches = response.data as WatchStatus[];
+  renderWatches(watches);
+  return watches;
+}
+
+// Отрисовка списка наблюдений
+function renderWatches(watches: WatchStatus[]) {
+  watchList.replaceChildren();
 
-  if (data.telegram) {
-    botTokenInput.value = data.telegram.botToken || '';
-    chatIdInput.value = data.telegram.chatId || '';
+  if (watches.length === 0) {
+    const empty = document.createElement('div');
+    empty.className = 'info';
+    empty.textContent = 'No watches yet';
+    watchList.append(empty);
+    return;
   }
 
-  if (data.reference) {
-    hasReference = true;
-    toggleBtn.disabled = false;
+  for (const watch of watches) {
+    watchList.append(renderWatch(watch));
   }
 
-  if (data.monitoring) {
-    isMonitoring = data.monitoring.isActive;
+  // Пока идёт калибровка, обновляем прогресс
+  if (
+    !pollTimer &&
+    watches.some((watch) => watch.calibration?.status === 'running')
+  ) {
+    pollTimer = setTimeout(() => {
+      pollTimer = null;
+      updateStatus();
+    }, CALIBRATION_POLL_MS);
   }
 }
-// Обновление статуса мониторинга
-async function updateStatus() {
-  const response = await sendMessage(MessageType.GET_STATUS);
 
-  if (response.success && response.data) {
-    const status = response.data as MonitoringConfig & { lastCheckTime?: number };
-    isMonitoring = status.isActive;
-
-    if (isMonitoring) {
-      statusIndicator.classList.add('active');
-      statusIndicator.classList.remove('inactive');
-      statusText.textContent = 'Monitoring Active';
-      toggleBtn.textContent = 'Stop Monitoring';
-      toggleBtn.classList.add('stop');
-    } else {
-      statusIndicator.classList.add('inactive');
-      statusIndicator.classList.remove('active');
-      statusText.textContent = 'Inactive';
-      toggleBtn.textContent = 'Start Monitoring';
-      toggleBtn.classList.remove('stop');
-    }
+// Карточка одного наблюдения
+function renderWatch(watch: WatchStatus): HTMLElement {
+  const card = document.createElement('div');
+  card.className = 'watch';
+
+  const indicator = document.createElement('div');
+  indicator.className = `status-indicator ${watch.monitoring.isActive ? 'active' : 'inactive'}${watch.problems.length > 0 ? ' warning' : ''}`;
+  const dot = document.createElement('span');
+  dot.className = 'dot';
+  const name = document.createElement('span');
+  name.textContent = watch.name;
+  indicator.append(dot, name);
 
-    if (status.lastCheckTime) {
-      const date = new Date(status.lastCheckTime);
-      lastCheckDiv.textContent = `Last check: ${date.toLocaleTimeString()}`;
+  const url = document.createElement('div');
+  url.className = 'watch-url';
+  url.textContent = watch.url;
+  url.title = watch.url;
+
+  const lastCheck = document.createElement('div');
+  lastCheck.className = 'info left';
+  lastCheck.textContent = watch.monitoring.lastCheckTime
+    ? `Last check: ${new Date(watch.monitoring.lastCheckTime).toLocaleTimeString()}`
+    : 'Last check: Never';
+  if (watch.alertState.phase === 'notified' && watch.alertState.changedSince) {
+    lastCheck.textContent += ` · 🎯 Changed since ${new Date(watch.alertState.changedSince).toLocaleTimeString()}`;
+  }
+  const { isActive, nextCheckTime, schedule } = watch.monitoring;
+  if (isActive && nextCheckTime) {
+    lastCheck.textContent += ` · Next: ${formatCheckTime(nextCheckTime)}`;
+    if (!isInSchedule(schedule, Date.now())) {
+      lastCheck.textContent += ' (outside schedule)';
     }
   }
+
+  const actions = document.createElement('div');
+  actions.className = 'watch-actions';
+
+  const toggleBtn = document.createElement('button');
+  toggleBtn.className = `btn btn-secondary${watch.monitoring.isActive ? ' stop' : ''}`;
+  toggleBtn.textContent = watch.monitoring.isActive ? 'Stop' : 'Start';
+  toggleBtn.disabled = !watch.ready;
+  toggleBtn.addEventListener('click', () => handleToggle(watch, toggleBtn));
+
+  const captureBtn = document.createElement('button');
+  captureBtn.className = 'btn btn-primary';
+  captureBtn.textContent = '📸 Recapture';
+  captureBtn.addEventListener('click', () => handleCapture(watch, captureBtn));
+
+  const areasBtn = document.createElement('button');
+  areasBtn.className = 'btn btn-small';
+  areasBtn.textContent = 'Areas';
+  areasBtn.disabled = !watch.hasReference;
+  areasBtn.addEventListener('click', () => openReferenceEditor(watch));
+
+  const rulesBtn = document.createElement('button');
+  rulesBtn.className = 'btn btn-small';
+  rulesBtn.textContent = 'Detect';
+  rulesBtn.addEventListener('click', () =>
+    openRulesEditor(watch, () => updateStatus())
+  );
+
+  const settingsBtn = document.createElement('button');
+  settingsBtn.className = 'btn btn-small';
+  settingsBtn.textContent = 'Settings';
+  settingsBtn.addEventListener('click', () =>
+    chrome.tabs.create({
+      url: chrome.runtime.getURL(
+        `options.html?watch=${encodeURIComponent(watch.id)}`
+      ),
+    })
+  );
+
+  const calibrateBtn = document.createElement('button');
+  calibrateBtn.className = 'btn btn-small';
+  calibrateBtn.textContent = 'Calibrate';
+  calibrateBtn.disabled =
+    !watch.hasReference ||
+    watch.detection.mode !== 'visual' ||
+    watch.calibration?.status === 'running';
+  calibrateBtn.addEventListener('click', () => handleCalibrate(watch));
+
+  const baselinesBtn = document.createElement('button');
+  baselinesBtn.className = 'btn btn-small';
+  baselinesBtn.textContent =
+    watch.baselineCount > 0
+      ? `Baselines (${watch.baselineCount})`
+      : 'Baselines';
+  baselinesBtn.disabled =
+    !watch.hasReference || watch.detection.mode !== 'visual';
+  baselinesBtn.addEventListener('click', () =>
+    openBaselineEditor(watch, async () =>
+      (await updateStatus()).find((item) => item.id === watch.id)
+    )
+  );
+
+  const capturesBtn = document.createElement('button');
+  capturesBtn.className = 'btn btn-small';
+  capturesBtn.textContent = 'Captures';
+  capturesBtn.addEventListener('click', () =>
+    chrome.tabs.create({
+      url: chrome.runtime.getURL(
+        `gallery.html?watch=${encodeURIComponent(watch.id)}`
+      ),
+    })
+  );
+
+  const deleteBtn = document.createElement('button');
+  deleteBtn.className = 'btn btn-small';
+  deleteBtn.textContent = 'Delete';
+  deleteBtn.addEventListener('click', () => handleDelete(watch));
+
+  actions.append(
+    toggleBtn,
+    captureBtn,
+    areasBtn,
+    rulesBtn,
+    settingsBtn,
+    calibrateBtn,
+    baselinesBtn,
+    capturesBtn,
+    deleteBtn
+  );
+  card.append(indicator, url, lastCheck);
+  const pause = pauseText(watch);
+  if (pause) {
+    const paused = document.createElement('div');
+    paused.className = 'info left';
+    paused.textContent = `⏸ ${pause}`;
+    card.append(paused);
+  }
+  // Неполадки мониторинга уже включают последнюю ошибку
+  for (const problem of watch.problems) {
+    const warning = document.createElement('div');
+    warning.className = 'info left watch-error';
+    warning.textContent = `🚨 Monitoring problem: ${problem}`;
+    card.append(warning);
+  }
+  if (watch.monitoring.lastError && watch.problems.length === 0) {
+    const lastError = document.createElement('div');
+    lastError.className = 'info left watch-error';
+    lastError.textContent = `⚠️ ${watch.monitoring.lastError}`;
+    card.append(lastError);
+  }
+  card.append(renderWatchChannels(watch));
+  if (watch.calibration) {
+    card.append(renderCalibration(watch));
+  }
+  card.append(actions);
+  return card;
 }
 
-// Отправка сообщения в background
-async function sendMessage(
-  type: MessageType,
-  payload?: unknown
-): Promise<MessageResponse> {
-  return new Promise((resolve) => {
-    chrome.runtime.sendMessage({ type, payload }, (response) => {
-      resolve(response || { success: false, error: 'No response' });
-    });
-  });
+// Время проверки; не сегодня — с датой
+function formatCheckTime(time: number): string {
+  const date = new Date(time);
+  return date.toDateString() === new Date().toDateString()
+    ? date.toLocaleTimeString()
+    : date.toLocaleString();
+}
+
+// Почему наблюдение сейчас не проверяет страницу
+function pauseText(watch: WatchStatus): string | null {
+  const { isActive, suspendedUntil, pausedReason } = watch.monitoring;
+  if (!isActive) return null;
+  if (watch.learning && watch.learning.until > Date.now()) {
+    return `Learning until ${new Date(watch.learning.until).toLocaleTimeString()}: no alerts, ${watch.learning.added} new baseline(s) so far`;
+  }
+  if (suspendedUntil && suspendedUntil > Date.now()) {
+    return `Suspended after alert until ${new Date(suspendedUntil).toLocaleTimeString()} (Stop/Start to resume)`;
+  }
+  return pausedReason ? `Paused: ${pausedReason}` : null;
+}
+
+// Прогресс и итог калибровки
+function renderCalibration(watch: WatchStatus): HTMLElement {
+  const container = document.createElement('div');
+  container.className = 'calibration';
+  const calibration = watch.calibration!;
+  const summary = document.createElement('div');
+  container.append(summary);
+
+  if (calibration.status === 'running') {
+    summary.textContent = `Calibrating... ${calibration.done}/${calibration.total} checks`;
+    return container;
+  }
+
+  const actions = document.createElement('div');
+  actions.className = 'watch-actions';
+  const dismissBtn = document.createElement('button');
+  dismissBtn.className = 'btn btn-small';
+  dismissBtn.textContent = 'Dismiss';
+  dismissBtn.addEventListener('click', () =>
+    handleCalibrationMessage(MessageType.DISMISS_CALIBRATION, {
+      watchId: watch.id,
+    })
+  );
+
+  const result = calibration.result;
+  if (calibration.status === 'failed' || !result) {
+    summary.textContent = `Calibration failed: ${calibration.error || 'unknown error'}`;
+    actions.append(dismissBtn);
+    container.append(actions);
+    return container;
+  }
+
+  summary.textContent = `Noise over ${result.samples.length} checks (${result.algorithm}): mean ${result.mean}%, max ${result.max}%. Suggested threshold: ${result.suggestedThreshold}% (now ${watch.detection.threshold}%).`;
+  if (result.suggestedMasks.length > 0) {
+    summary.textContent += ` ${result.suggestedMasks.length} area(s) changed almost every time and can be masked.`;
+  }
+
+  const applyBtn = document.createElement('button');
+  applyBtn.className = 'btn btn-primary';
+  applyBtn.textContent =
+    result.suggestedMasks.length > 0 ? 'Apply threshold + masks' : 'Apply';
+  applyBtn.addEventListener('click', () =>
+    handleCalibrationMessage(MessageType.APPLY_CALIBRATION, {
+      watchId: watch.id,
+      applyMasks: true,
+    })
+  );
+  actions.append(applyBtn);
+
+  if (result.suggestedMasks.length > 0) {
+    const thresholdBtn = document.createElement('button');
+    thresholdBtn.className = 'btn btn-small';
+    thresholdBtn.textContent = 'Threshold only';
+    thresholdBtn.addEventListener('click', () =>
+      handleCalibrationMessage(MessageType.APPLY_CALIBRATION, {
+        watchId: watch.id,
+        applyMasks: false,
+      })
+    );
+    actions.append(thresholdBtn);
+  }
+
+  actions.append(dismissBtn);
+  container.append(actions);
+  return container;
+}
+
+// Переключатели каналов уведомлений наблюдения
+function renderWatchChannels(watch: WatchStatus): HTMLElement {
+  const container = document.createElement('div');
+  container.className = 'watch-channels';
+
+  if (channels.length === 0) {
+    container.textContent = 'Add a notification channel below';
+    return container;
+  }
+
+  for (const channel of channels) {
+    const label = document.createElement('label');
+    const checkbox = document.createElement('input');
+    checkbox.type = 'checkbox';
+    checkbox.checked = watch.channelIds.includes(channel.id);
+    checkbox.addEventListener('change', () =>
+      handleChannelToggle(watch, channel.id, checkbox.checked)
+    );
+    label.append(checkbox, channel.name);
+    container.append(label);
+  }
+  return container;
 }
 
 // Обработчики событий
 function attachEventListeners() {
-  captureBtn.addEventListener('click', handleCapture);
-  toggleBtn.addEventListener('click', handleToggle);
-  saveSettingsBtn.addEventListener('click', handleSaveSettings);
+  addWatchBtn.addEventListener('click', handleAddWatch);
+  historyBtn.addEventListener('click', () =>
+    chrome.tabs.create({ url: chrome.runtime.getURL('history.html') })
+  );
 }
 
-// Захват эталона
-async function handleCapture() {
-  captureBtn.disabled = true;
-  captureBtn.textContent = 'Capturing...';
+// Новое наблюдение по текущей странице
+async function handleAddWatch() {
+  addWatchBtn.disabled = true;
+  addWatchBtn.textContent = 'Capturing...';
 
-  const response = await sendMessage(MessageType.CAPTURE_REFERENCE);
+  const response = await sendMessage(MessageType.ADD_WATCH, {
+    name: watchNameInput.value,
+  });
 
   if (response.success) {
-    hasReference = true;
-    toggleBtn.disabled = false;
-    captureBtn.textContent = 'Captured!';
-    setTimeout(() => {
-      captureBtn.textContent = '📸 Capture Reference';
-      captureBtn.disabled = false;
-    }, 2000);
+    watchNameInput.value = '';
+    addWatchBtn.textContent = 'Added!';
+    await updateStatus();
   } else {
-    captureBtn.textContent = 'Failed';
+    addWatchBtn.textContent = 'Failed';
     alert(`Error: ${response.error}`);
-    setTimeout(() => {
-      captureBtn.textContent = '📸 Capture Reference';
-      captureBtn.disabled = false;
-    }, 2000);
   }
-}
 
-// Старт/стоп мониторинга
-async function handleToggle() {
-  if (!hasReference) return;
+  setTimeout(() => {
+    addWatchBtn.textContent = '📸 Watch Current Page';
+    addWatchBtn.disabled = false;
+  }, 2000);
+}
 
-  toggleBtn.disabled = true;
+// Повторный захват эталона
+async function handleCapture(watch: WatchStatus, button: HTMLButtonElement) {
+  button.disabled = true;
+  button.textContent = 'Capturing...';
 
-  const type = isMonitoring
-    ? MessageType.STOP_MONITORING
-    : MessageType.START_MONITORING;
-  const response = await sendMessage(type);
+  const response = await sendMessage(MessageType.CAPTURE_REFERENCE, {
+    watchId: watch.id,
+  });
 
   if (response.success) {
-    await updateStatus();
+    button.textContent = 'Captured!';
   } else {
+    button.textContent = 'Failed';
     alert(`Error: ${response.error}`);
   }
 
-  toggleBtn.disabled = false;
+  setTimeout(() => updateStatus(), 2000);
 }
 
-// Сохранение настроек
-async function handleSaveSettings() {
-  const botToken = botTokenInput.value.trim();
-  const chatId = chatIdInput.value.trim();
+// Старт/стоп мониторинга
+async function handleToggle(watch: WatchStatus, button: HTMLButtonElement) {
+  button.disabled = true;
 
-  if (!botToken || !chatId) {
-    alert('Please fill in both Telegram Bot Token and Chat ID');
-    return;
+  const type = watch.monitoring.isActive
+    ? MessageType.STOP_MONITORING
+    : MessageType.START_MONITORING;
+  const response = await sendMessage(type, { watchId: watch.id });
+
+  if (!response.success) {
+    alert(`Error: ${response.error}`);
   }
 
-  // Сохраняем напрямую в storage
-  await chrome.storage.local.set({
-    telegram: { botToken, chatId },
+  await updateStatus();
+}
+
+// Удаление наблюдения
+async function handleDelete(watch: WatchStatus) {
+  if (!confirm(`Delete watch "${watch.name}"?`)) return;
+
+  await sendMessage(MessageType.DELETE_WATCH, { watchId: watch.id });
+  await updateStatus();
+}
+
+// Запуск калибровки
+async function handleCalibrate(watch: WatchStatus) {
+  const answer = prompt(
+    `Number of checks to measure the noise of "${watch.name}" (no alerts are sent):`,
+    String(DEFAULT_CALIBRATION_SAMPLES)
+  );
+  if (answer === null) return;
+
+  await handleCalibrationMessage(MessageType.START_CALIBRATION, {
+    watchId: watch.id,
+    samples: Number(answer),
   });
+}
 
-  saveSettingsBtn.textContent = 'Saved!';
-  setTimeout(() => {
-    saveSettingsBtn.textContent = 'Save Settings';
-  }, 2000);
+// Команда калибровки в background
+async function handleCalibrationMessage(type: MessageType, payload: unknown) {
+  const response = await sendMessage(type, payload);
+  if (!response.success) {
+    alert(`Error: ${response.error}`);
+  }
+  await updateStatus();
 }
 
+// Включение/выключение канала для наблюдения
+async function handleChannelToggle(
+  watch: WatchStatus,
+  channelId: string,
+  enabled: boolean
+) {
+  const channelIds = enabled
+    ? [...watch.channelIds, channelId]
+    : watch.channelIds.filter((id) => id !== channelId);
+
+  const response = await sendMessage(MessageType.SET_WATCH_CHANNELS, {
+    watchId: watch.id,
+    channelIds,
+  });
+
+  if (!response.success) {
+    alert(`Error: ${response.error}`);
+  }
+  await updateStatus();
+}
 
-init();
\ No newline at end of file
+init();
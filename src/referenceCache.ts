@@ -0,0 +1,169 @@
+import {
+  CalibrationSample,
+  ComparePayload,
+  DiffPayload,
+  EvictPayload,
+  ReferenceSnapshot,
+  VisualComparison,
+} from './types.js';
+import {
+  DecodedImage,
+  ReferenceImage,
+  base64ToBlob,
+  blobToBase64,
+  compareImages,
+  comparisonArea,
+  decodeImage,
+  resizeAlignment,
+  scaleReference,
+} from './compare.js';
+import { noisyCells } from './calibration.js';
+import { renderDiffImage } from './diffImage.js';
+import { getCapture } from './screenshotStore.js';
+
+// Декодированные эталоны по наблюдениям (в offscreen документе).
+// Снимок с данным id не меняется, поэтому ключ — id и масштаб
+const cache = new Map<string, Map<string, DecodedImage>>();
+
+// Снимки эталона и вариантов: из кэша или из хранилища снимков.
+// Остальные снимки наблюдения из кэша уходят: эталон сменили,
+// вариант удалили или поменяли масштаб
+async function loadReferenceImages(
+  watchId: string,
+  reference: ReferenceSnapshot,
+  scale: number
+): Promise<ReferenceImage[]> {
+  const previous = cache.get(watchId);
+  const current = new Map<string, DecodedImage>();
+  const sources = [
+    { screenshotId: reference.screenshotId },
+    ...(reference.baselines || []),
+  ];
+
+  const images: ReferenceImage[] = [];
+  for (const source of sources) {
+    const key = `${source.screenshotId}@${scale}`;
+    let image = previous?.get(key);
+    if (!image) {
+      const capture = await getCapture(source.screenshotId);
+      if (!capture) {
+        throw new Error('Screenshot not found; recapture the reference');
+      }
+      image = await decodeImage(capture.blob, scale);
+    }
+    current.set(key, image);
+    images.push({ ...('id' in source && { id: source.id }), image });
+  }
+  cache.set(watchId, current);
+  return images;
+}
+
+// Сравнение вместе с декодированными снимками (нужны калибровке)
+interface DecodedComparison extends VisualComparison {
+  images: ReferenceImage[];
+  current: DecodedImage;
+}
+
+async function compareDecoded(
+  payload: ComparePayload
+): Promise<DecodedComparison> {
+  const { watchId, reference, screenshot, detection } = payload;
+  const decodeStart = performance.now();
+  // Пропавший снимок эталона — понятная ошибка, а не «сравнение не удалось»
+  const images = await loadReferenceImages(
+    watchId,
+    reference,
+    detection.compareScale
+  );
+
+  try {
+    const current = await decodeImage(
+      base64ToBlob(screenshot),
+      detection.compareScale
+    );
+    const compareStart = performance.now();
+    const comparison = compareImages(reference, images, current, detection);
+
+    return {
+      comparison,
+      decodeMs: Math.round(compareStart - decodeStart),
+      compareMs: Math.round(performance.now() - compareStart),
+      images,
+      current,
+    };
+  } catch (error) {
+    console.error('Comparison error:', error);
+    throw new Error('Failed to compare screenshots');
+  }
+}
+
+// Сравнение в offscreen документе: декодирование и сравнение со временем
+export async function compareWithReference(
+  payload: ComparePayload
+): Promise<VisualComparison> {
+  const {
+    images: _images,
+    current: _current,
+    ...result
+  } = await compareDecoded(payload);
+  return result;
+}
+
+// Проверка калибровки: сравнение и шумные ячейки относительно основного
+// эталона. Шум считаем, только если размер совпал — у совмещённых снимков
+// ячейки не совпадают с ячейками эталона
+export async function calibrationSample(
+  payload: ComparePayload
+): Promise<CalibrationSample> {
+  const { reference, detection } = payload;
+  const { images, current, ...result } = await compareDecoded(payload);
+  const { data } = images[0]!.image;
+  if (
+    data.width !== current.data.width ||
+    data.height !== current.data.height
+  ) {
+    return result;
+  }
+
+  const { area, masks } = comparisonArea(
+    scaleReference(reference, detection.compareScale),
+    data.width,
+    data.height
+  );
+  return {
+    ...result,
+    noise: {
+      width: data.width,
+      height: data.height,
+      cells: noisyCells(data, current.data, area, masks, detection.tolerance),
+    },
+  };
+}
+
+// Карта изменений в масштабе сравнения против снимка, с которым совпала
+// страница (вариант или основной эталон). Картинка уходит в background
+// как data URL: Blob через сообщения не передаётся
+export async function renderDiff(payload: DiffPayload): Promise<string | null> {
+  const { watchId, reference, screenshot, detection, alignment, baselineId } =
+    payload;
+  const scale = detection.compareScale;
+  const images = await loadReferenceImages(watchId, reference, scale);
+  const { image } = images.find(({ id }) => id === baselineId) ?? images[0]!;
+  const current = await decodeImage(base64ToBlob(screenshot), scale);
+
+  const diff = await renderDiffImage(
+    scaleReference(reference, scale),
+    image.data,
+    current.data,
+    detection.tolerance,
+    alignment && resizeAlignment(alignment, scale, image.data, current.data)
+  );
+  return diff ? await blobToBase64(diff) : null;
+}
+
+// Забываем декодированные эталоны удалённых и заменённых наблюдений
+export function evictReferences({ watchIds }: EvictPayload) {
+  for (const watchId of watchIds) {
+    cache.delete(watchId);
+  }
+}
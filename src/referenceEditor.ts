@@ -0,0 +1,235 @@
+import { MessageType, Rect, ReferencePreview, WatchStatus } from './types.js';
+import { sendMessage } from './messaging.js';
+
+// Минимальный размер области (в пикселях скриншота)
+const MIN_REGION_SIZE = 5;
+
+// Режим рисования: основная область или маска
+type EditorMode = 'region' | 'mask';
+
+// DOM элементы
+const editorSection = document.getElementById('editor') as HTMLElement;
+const editorTitle = document.getElementById('editorTitle') as HTMLElement;
+const editorCanvas = document.getElementById(
+  'editorCanvas'
+) as HTMLCanvasElement;
+const regionModeBtn = document.getElementById(
+  'regionModeBtn'
+) as HTMLButtonElement;
+const maskModeBtn = document.getElementById('maskModeBtn') as HTMLButtonElement;
+const saveAreasBtn = document.getElementById(
+  'saveAreasBtn'
+) as HTMLButtonElement;
+const clearRegionBtn = document.getElementById(
+  'clearRegionBtn'
+) as HTMLButtonElement;
+const clearMasksBtn = document.getElementById(
+  'clearMasksBtn'
+) as HTMLButtonElement;
+const closeEditorBtn = document.getElementById(
+  'closeEditorBtn'
+) as HTMLButtonElement;
+
+// Состояние редактора
+interface EditorState {
+  watchId: string;
+  image: HTMLImageElement;
+  region: Rect | null;
+  masks: Rect[];
+  mode: EditorMode;
+  dragStart: { x: number; y: number } | null;
+  draft: Rect | null;
+}
+
+let state: EditorState | null = null;
+
+// Открытие редактора для эталона наблюдения
+export async function openReferenceEditor(watch: WatchStatus) {
+  const response = await sendMessage(MessageType.GET_REFERENCE, {
+    watchId: watch.id,
+  });
+
+  if (!response.success) {
+    alert(`Error: ${response.error}`);
+    return;
+  }
+
+  const reference = response.data as ReferencePreview;
+  const image = await loadImage(reference.screenshot);
+
+  state = {
+    watchId: watch.id,
+    image,
+    region: reference.region || null,
+    masks: reference.masks || [],
+    mode: 'region',
+    dragStart: null,
+    draft: null,
+  };
+
+  editorTitle.textContent = `Areas: ${watch.name}`;
+  setMode('region');
+  editorCanvas.width = image.naturalWidth;
+  editorCanvas.height = image.naturalHeight;
+  editorSection.hidden = false;
+  draw();
+  editorSection.scrollIntoView({ behavior: 'smooth' });
+}
+
+// Загрузка скриншота в Image
+function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Failed to load screenshot'));
+    image.src = src;
+  });
+}
+
+// Отрисовка скриншота, выбранной области и масок
+function draw() {
+  if (!state) return;
+  const ctx = editorCanvas.getContext('2d');
+  if (!ctx) return;
+
+  const { width, height } = editorCanvas;
+  const lineWidth = Math.max(2, width / 300);
+  ctx.drawImage(state.image, 0, 0);
+
+  const region =
+    state.mode === 'region' && state.draft ? state.draft : state.region;
+  const masks =
+    state.mode === 'mask' && state.draft
+      ? [...state.masks, state.draft]
+      : state.masks;
+
+  if (region) {
+    const { x, y, width: w, height: h } = region;
+
+    // Затемняем всё, что не попадает в область
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.45)';
+    ctx.fillRect(0, 0, width, y);
+    ctx.fillRect(0, y + h, width, height - y - h);
+    ctx.fillRect(0, y, x, h);
+    ctx.fillRect(x + w, y, width - x - w, h);
+
+    ctx.strokeStyle = '#1a73e8';
+    ctx.lineWidth = lineWidth;
+    ctx.strokeRect(x, y, w, h);
+  }
+
+  // Маски закрашиваем, чтобы было видно, что исключено
+  for (const mask of masks) {
+    ctx.fillStyle = 'rgba(234, 67, 53, 0.4)';
+    ctx.fillRect(mask.x, mask.y, mask.width, mask.height);
+    ctx.strokeStyle = '#ea4335';
+    ctx.lineWidth = lineWidth;
+    ctx.strokeRect(mask.x, mask.y, mask.width, mask.height);
+  }
+}
+
+// Переключение режима рисования
+function setMode(mode: EditorMode) {
+  if (state) state.mode = mode;
+  regionModeBtn.classList.toggle('active', mode === 'region');
+  maskModeBtn.classList.toggle('active', mode === 'mask');
+}
+
+// Координаты мыши в пикселях скриншота
+function toImagePoint(event: MouseEvent): { x: number; y: number } {
+  const bounds = editorCanvas.getBoundingClientRect();
+  const scale = editorCanvas.width / bounds.width;
+  return {
+    x: Math.round((event.clientX - bounds.left) * scale),
+    y: Math.round((event.clientY - bounds.top) * scale),
+  };
+}
+
+// Прямоугольник по двум точкам
+function rectFromPoints(
+  a: { x: number; y: number },
+  b: { x: number; y: number }
+): Rect {
+  const x = Math.max(0, Math.min(a.x, b.x));
+  const y = Math.max(0, Math.min(a.y, b.y));
+  return {
+    x,
+    y,
+    width: Math.min(Math.abs(a.x - b.x), editorCanvas.width - x),
+    height: Math.min(Math.abs(a.y - b.y), editorCanvas.height - y),
+  };
+}
+
+// Закрытие редактора
+function closeEditor() {
+  state = null;
+  editorSection.hidden = true;
+}
+
+// Сохранение области и масок в background
+async function saveAreas() {
+  if (!state) return;
+
+  const response = await sendMessage(MessageType.SET_AREAS, {
+    watchId: state.watchId,
+    region: state.region,
+    masks: state.masks,
+  });
+
+  if (response.success) {
+    closeEditor();
+  } else {
+    alert(`Error: ${response.error}`);
+  }
+}
+
+// Обработчики событий
+editorCanvas.addEventListener('mousedown', (event) => {
+  if (!state) return;
+  state.dragStart = toImagePoint(event);
+});
+
+editorCanvas.addEventListener('mousemove', (event) => {
+  if (!state?.dragStart) return;
+  state.draft = rectFromPoints(state.dragStart, toImagePoint(event));
+  draw();
+});
+
+window.addEventListener('mouseup', () => {
+  if (!state?.dragStart) return;
+  const draft = state.draft;
+  state.dragStart = null;
+  state.draft = null;
+
+  // Случайный клик не считаем выделением
+  if (
+    draft &&
+    draft.width >= MIN_REGION_SIZE &&
+    draft.height >= MIN_REGION_SIZE
+  ) {
+    if (state.mode === 'region') {
+      state.region = draft;
+    } else {
+      state.masks = [...state.masks, draft];
+    }
+  }
+  draw();
+});
+
+regionModeBtn.addEventListener('click', () => setMode('region'));
+maskModeBtn.addEventListener('click', () => setMode('mask'));
+
+clearRegionBtn.addEventListener('click', () => {
+  if (!state) return;
+  state.region = null;
+  draw();
+});
+
+clearMasksBtn.addEventListener('click', () => {
+  if (!state) return;
+  state.masks = [];
+  draw();
+});
+
+saveAreasBtn.addEventListener('click', saveAreas);
+closeEditorBtn.addEventListener('click', closeEditor);
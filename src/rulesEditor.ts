@@ -0,0 +1,65 @@
+import { MessageType, WatchStatus } from './types.js';
+import { sendMessage } from './messaging.js';
+import { fillDetectionForm, readDetectionForm } from './detectionForm.js';
+import { validateDetection } from './settings.js';
+
+// DOM элементы
+const rulesSection = document.getElementById('rulesEditor') as HTMLElement;
+const rulesTitle = document.getElementById('rulesTitle') as HTMLElement;
+const saveRulesBtn = document.getElementById(
+  'saveRulesBtn'
+) as HTMLButtonElement;
+const closeRulesBtn = document.getElementById(
+  'closeRulesBtn'
+) as HTMLButtonElement;
+
+// Состояние редактора
+let watchId: string | null = null;
+let onSaved: (() => void) | null = null;
+
+// Открытие редактора правил наблюдения
+export function openRulesEditor(watch: WatchStatus, saved: () => void) {
+  watchId = watch.id;
+  onSaved = saved;
+
+  rulesTitle.textContent = `Detection: ${watch.name}`;
+  fillDetectionForm(watch.detection);
+
+  rulesSection.hidden = false;
+  rulesSection.scrollIntoView({ behavior: 'smooth' });
+}
+
+// Закрытие редактора
+function closeRulesEditor() {
+  watchId = null;
+  onSaved = null;
+  rulesSection.hidden = true;
+}
+
+// Сохранение в background
+async function saveRules() {
+  if (!watchId) return;
+
+  const detection = readDetectionForm();
+  const error = validateDetection(detection);
+  if (error) {
+    alert(error);
+    return;
+  }
+
+  const response = await sendMessage(MessageType.SET_DETECTION, {
+    watchId,
+    detection,
+  });
+
+  if (response.success) {
+    onSaved?.();
+    closeRulesEditor();
+  } else {
+    alert(`Error: ${response.error}`);
+  }
+}
+
+// Обработчики событий
+saveRulesBtn.addEventListener('click', saveRules);
+closeRulesBtn.addEventListener('click', closeRulesEditor);
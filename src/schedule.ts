@@ -0,0 +1,107 @@
+import { Schedule, ScheduleWindow } from './types.js';
+
+// Дни недели в порядке Date.getDay()
+export const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+// Ближайшее окно ищем на неделю вперёд с запасом на переход времени
+const SEARCH_LIMIT_MIN = 8 * 24 * 60;
+const MINUTE = 60_000;
+
+// Часовой пояс браузера
+export function localTimezone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+// Расписание по умолчанию: круглосуточно
+export function createDefaultSchedule(): Schedule {
+  return { timezone: localTimezone(), windows: [] };
+}
+
+// Существует ли часовой пояс
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// "HH:MM" в минуты от полуночи ("24:00" — конец суток); null — неверное время
+export function parseTime(value: string): number | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value);
+  if (!match) return null;
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (minutes > 59 || hours > 24 || (hours === 24 && minutes > 0)) {
+    return null;
+  }
+  return hours * 60 + minutes;
+}
+
+// День недели и минуты от полуночи в часовом поясе расписания
+function zonedTime(
+  formatter: Intl.DateTimeFormat,
+  time: number
+): { day: number; minutes: number } {
+  const parts = formatter.formatToParts(time);
+  const value = (type: Intl.DateTimeFormatPartTypes) =>
+    parts.find((part) => part.type === type)?.value ?? '';
+  return {
+    day: WEEKDAYS.indexOf(value('weekday')),
+    minutes: Number(value('hour')) * 60 + Number(value('minute')),
+  };
+}
+
+// Попадает ли момент в окно; окно вроде 22:00-02:00 идёт через полночь
+function inWindow(window: ScheduleWindow, day: number, minutes: number) {
+  const start = parseTime(window.start) ?? 0;
+  const end = parseTime(window.end) ?? 0;
+  if (start < end) {
+    return window.days.includes(day) && minutes >= start && minutes < end;
+  }
+  return (
+    (window.days.includes(day) && minutes >= start) ||
+    (window.days.includes((day + 6) % 7) && minutes < end)
+  );
+}
+
+// Форматтер часового пояса расписания
+function createFormatter(schedule: Schedule): Intl.DateTimeFormat {
+  return new Intl.DateTimeFormat('en-US', {
+    timeZone: schedule.timezone,
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  });
+}
+
+// Разрешены ли проверки в этот момент; без окон — всегда
+export function isInSchedule(schedule: Schedule, time: number): boolean {
+  if (schedule.windows.length === 0) return true;
+  const { day, minutes } = zonedTime(createFormatter(schedule), time);
+  return schedule.windows.some((window) => inWindow(window, day, minutes));
+}
+
+// Ближайший момент не раньше from, когда проверки разрешены;
+// null — ни одного окна за неделю
+export function nextScheduledTime(
+  schedule: Schedule,
+  from: number
+): number | null {
+  if (schedule.windows.length === 0) return from;
+
+  const formatter = createFormatter(schedule);
+  const allowed = (time: number) => {
+    const { day, minutes } = zonedTime(formatter, time);
+    return schedule.windows.some((window) => inWindow(window, day, minutes));
+  };
+  if (allowed(from)) return from;
+
+  // Окна задаются с точностью до минуты: идём по началам минут
+  let time = Math.ceil(from / MINUTE) * MINUTE;
+  for (let step = 0; step < SEARCH_LIMIT_MIN; step++, time += MINUTE) {
+    if (allowed(time)) return time;
+  }
+  return null;
+}
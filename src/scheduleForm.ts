@@ -0,0 +1,91 @@
+import { Schedule, ScheduleWindow } from './types.js';
+import { WEEKDAYS, localTimezone } from './schedule.js';
+
+// Дни в порядке рабочей недели
+const WEEK_ORDER = [1, 2, 3, 4, 5, 6, 0];
+// Новое окно: рабочие дни, рабочее время
+const OFFICE_HOURS: ScheduleWindow = {
+  days: [1, 2, 3, 4, 5],
+  start: '09:00',
+  end: '18:00',
+};
+
+// DOM элементы формы расписания (страница настроек)
+const timezoneInput = document.getElementById('timezone') as HTMLInputElement;
+const timezoneList = document.getElementById(
+  'timezoneList'
+) as HTMLDataListElement;
+const windowList = document.getElementById('windowList') as HTMLDivElement;
+const addWindowBtn = document.getElementById(
+  'addWindowBtn'
+) as HTMLButtonElement;
+
+// Подсказки часовых поясов (supportedValuesOf есть не во всех браузерах)
+const intl = Intl as { supportedValuesOf?: (key: string) => string[] };
+for (const timezone of intl.supportedValuesOf?.('timeZone') ?? []) {
+  timezoneList.append(new Option(timezone));
+}
+
+// Заполнение формы расписанием наблюдения
+export function fillScheduleForm(schedule: Schedule) {
+  timezoneInput.value = schedule.timezone;
+  windowList.replaceChildren(...schedule.windows.map(renderWindow));
+}
+
+// Расписание из формы
+export function readScheduleForm(): Schedule {
+  return {
+    timezone: timezoneInput.value.trim() || localTimezone(),
+    windows: Array.from(windowList.querySelectorAll('.schedule-window')).map(
+      (row) => ({
+        days: Array.from(
+          row.querySelectorAll<HTMLInputElement>('.schedule-day:checked')
+        ).map((input) => Number(input.value)),
+        start: (row.querySelector('.schedule-start') as HTMLInputElement).value,
+        end: (row.querySelector('.schedule-end') as HTMLInputElement).value,
+      })
+    ),
+  };
+}
+
+// Строка одного окна: дни недели и интервал времени
+function renderWindow(window: ScheduleWindow): HTMLElement {
+  const row = document.createElement('div');
+  row.className = 'schedule-window';
+
+  const days = document.createElement('div');
+  days.className = 'schedule-days';
+  for (const day of WEEK_ORDER) {
+    const label = document.createElement('label');
+    const checkbox = document.createElement('input');
+    checkbox.type = 'checkbox';
+    checkbox.className = 'schedule-day';
+    checkbox.value = String(day);
+    checkbox.checked = window.days.includes(day);
+    label.append(checkbox, ` ${WEEKDAYS[day]}`);
+    days.append(label);
+  }
+
+  const start = document.createElement('input');
+  start.type = 'time';
+  start.className = 'schedule-start';
+  start.value = window.start;
+
+  const end = document.createElement('input');
+  end.type = 'time';
+  end.className = 'schedule-end';
+  end.value = window.end;
+
+  const removeBtn = document.createElement('button');
+  removeBtn.className = 'btn btn-small';
+  removeBtn.textContent = '✕';
+  removeBtn.addEventListener('click', () => row.remove());
+
+  row.append(days, start, '–', end, removeBtn);
+  return row;
+}
+
+// Обработчики событий
+addWindowBtn.addEventListener('click', () => {
+  windowList.append(renderWindow(OFFICE_HOURS));
+});
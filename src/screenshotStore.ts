@@ -0,0 +1,153 @@
+import { Capture, CaptureKind } from './types.js';
+import { base64ToBlob, blobToBase64 } from './compare.js';
+
+// Снимки храним в IndexedDB бинарно: в chrome.storage.local они
+// лежали бы base64 строками рядом с настройками
+const DB_NAME = 'slotwatch';
+const DB_VERSION = 1;
+const STORE = 'captures';
+// Картинки уведомлений в очереди отправки
+const IMAGE_STORE = 'images';
+// Границы хранения снимков проверок на наблюдение
+export const DEFAULT_CAPTURE_RETENTION = 50;
+export const MAX_CAPTURE_RETENTION = 500;
+
+// Соединение открываем один раз на контекст (service worker, страница)
+let database: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  database ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(STORE, { keyPath: 'id' });
+      store.createIndex('watchId', 'watchId');
+      request.result.createObjectStore(IMAGE_STORE, { keyPath: 'id' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      database = null;
+      reject(request.error);
+    };
+  });
+  return database;
+}
+
+// Запрос к хранилищу снимков как Promise
+async function run<T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>,
+  storeName = STORE
+): Promise<T> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = operation(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+// Сохранение снимка (data URL); возвращает id
+export async function saveCapture(
+  watchId: string,
+  kind: CaptureKind,
+  screenshot: string,
+  changePercentage?: number
+): Promise<string> {
+  const capture: Capture = {
+    id: crypto.randomUUID(),
+    watchId,
+    timestamp: Date.now(),
+    kind,
+    blob: base64ToBlob(screenshot),
+    ...(changePercentage !== undefined && { changePercentage }),
+  };
+  await run('readwrite', (store) => store.put(capture));
+  return capture.id;
+}
+
+// Снимок из файла экспорта (с прежним id, на него ссылается эталон)
+export async function restoreCapture(capture: Capture) {
+  await run('readwrite', (store) => store.put(capture));
+}
+
+// Один снимок
+export async function getCapture(id: string): Promise<Capture | undefined> {
+  return await run('readonly', (store) => store.get(id));
+}
+
+// Снимок как data URL для сравнения и отправки
+export async function loadScreenshot(id: string): Promise<string> {
+  const capture = await getCapture(id);
+  if (!capture) {
+    throw new Error('Screenshot not found; recapture the reference');
+  }
+  return await blobToBase64(capture.blob);
+}
+
+// Снимки наблюдения, новые первыми
+export async function listCaptures(watchId: string): Promise<Capture[]> {
+  const captures: Capture[] = await run('readonly', (store) =>
+    store.index('watchId').getAll(watchId)
+  );
+  return captures.sort((a, b) => b.timestamp - a.timestamp);
+}
+
+// Снимок проверки становится эталоном или вариантом (и не удаляется по
+// сроку), бывший эталон — обычным снимком. Удалённый снимок пропускаем;
+// false — снимка уже нет
+export async function setCaptureKind(
+  id: string,
+  kind: CaptureKind
+): Promise<boolean> {
+  const capture = await getCapture(id);
+  if (!capture) return false;
+  await run('readwrite', (store) => store.put({ ...capture, kind }));
+  return true;
+}
+
+// Удаление снимков
+export async function deleteCaptures(ids: string[]) {
+  for (const id of ids) {
+    await run('readwrite', (store) => store.delete(id));
+  }
+}
+
+// Все снимки удалённого наблюдения
+export async function deleteWatchCaptures(watchId: string) {
+  const captures = await listCaptures(watchId);
+  await deleteCaptures(captures.map(({ id }) => id));
+}
+
+// Оставляем последние keep снимков проверок; эталоны и варианты не трогаем
+export async function pruneCaptures(watchId: string, keep: number) {
+  const checks = (await listCaptures(watchId)).filter(
+    ({ kind }) => kind === 'check'
+  );
+  await deleteCaptures(checks.slice(keep).map(({ id }) => id));
+}
+
+// Картинка уведомления в очереди отправки; возвращает id
+export async function saveImage(blob: Blob): Promise<string> {
+  const id = crypto.randomUUID();
+  await run('readwrite', (store) => store.put({ id, blob }), IMAGE_STORE);
+  return id;
+}
+
+// Картинка уведомления; удалённая — undefined
+export async function getImage(id: string): Promise<Blob | undefined> {
+  const image: { blob: Blob } | undefined = await run(
+    'readonly',
+    (store) => store.get(id),
+    IMAGE_STORE
+  );
+  return image?.blob;
+}
+
+// Удаление картинок отправленных или отменённых уведомлений
+export async function deleteImages(ids: string[]) {
+  for (const id of ids) {
+    await run('readwrite', (store) => store.delete(id), IMAGE_STORE);
+  }
+}
@@ -0,0 +1,160 @@
+import { DetectionConfig, MonitoringSettings, Schedule } from './types.js';
+import { isValidTimezone, parseTime } from './schedule.js';
+import { validateSlotConditions } from './slots.js';
+import { MAX_FAILURE_LIMIT } from './health.js';
+import { MAX_CAPTURE_RETENTION } from './screenshotStore.js';
+
+// Границы настроек: alarms не срабатывают чаще раза в 30 секунд
+export const MIN_INTERVAL_SEC = 30;
+export const MAX_INTERVAL_SEC = 24 * 60 * 60;
+export const MAX_SETTLE_TIME = 10_000;
+export const MIN_READY_TIMEOUT = 1000;
+export const MAX_READY_TIMEOUT = 120_000;
+export const MAX_COOLDOWN_MIN = 24 * 60;
+export const MAX_ACTIVITY_PAUSE_SEC = 60 * 60;
+export const MAX_ALERT_SUSPEND_MIN = 24 * 60;
+
+const DETECTION_MODES = ['visual', 'text', 'ocr', 'slots'];
+const ALGORITHMS = ['pixel', 'ssim', 'phash'];
+const COMPARE_SCALES = [1, 0.5, 0.25];
+
+// Число в диапазоне (включительно)
+function inRange(value: number, min: number, max: number): boolean {
+  return Number.isFinite(value) && value >= min && value <= max;
+}
+
+// Проверка настроек мониторинга; null — всё в порядке
+export function validateMonitoring(
+  monitoring: MonitoringSettings
+): string | null {
+  const {
+    intervalMin,
+    intervalMax,
+    settleTime,
+    readyTimeout,
+    activityPause,
+    alertSuspend,
+  } = monitoring;
+
+  if (
+    !Number.isInteger(intervalMin) ||
+    !inRange(intervalMin, MIN_INTERVAL_SEC, MAX_INTERVAL_SEC)
+  ) {
+    return `Minimum interval must be a whole number of seconds between ${MIN_INTERVAL_SEC} and ${MAX_INTERVAL_SEC}`;
+  }
+  if (
+    !Number.isInteger(intervalMax) ||
+    !inRange(intervalMax, MIN_INTERVAL_SEC, MAX_INTERVAL_SEC)
+  ) {
+    return `Maximum interval must be a whole number of seconds between ${MIN_INTERVAL_SEC} and ${MAX_INTERVAL_SEC}`;
+  }
+  if (intervalMin > intervalMax) {
+    return 'Minimum interval must not exceed the maximum';
+  }
+  if (
+    !Number.isInteger(settleTime) ||
+    !inRange(settleTime, 0, MAX_SETTLE_TIME)
+  ) {
+    return `Settle time must be between 0 and ${MAX_SETTLE_TIME} ms`;
+  }
+  if (
+    !Number.isInteger(readyTimeout) ||
+    !inRange(readyTimeout, MIN_READY_TIMEOUT, MAX_READY_TIMEOUT)
+  ) {
+    return `Page load timeout must be between ${MIN_READY_TIMEOUT} and ${MAX_READY_TIMEOUT} ms`;
+  }
+  if (settleTime >= readyTimeout) {
+    return 'Settle time must be shorter than the page load timeout';
+  }
+  // Страница должна успеть загрузиться до следующей проверки
+  if (readyTimeout >= intervalMin * 1000) {
+    return 'Page load timeout must be shorter than the minimum interval';
+  }
+  if (
+    !Number.isInteger(activityPause) ||
+    !inRange(activityPause, 0, MAX_ACTIVITY_PAUSE_SEC)
+  ) {
+    return `Pause after page use must be between 0 and ${MAX_ACTIVITY_PAUSE_SEC} seconds`;
+  }
+  if (!inRange(alertSuspend, 0, MAX_ALERT_SUSPEND_MIN)) {
+    return `Suspend after alert must be between 0 and ${MAX_ALERT_SUSPEND_MIN} minutes`;
+  }
+  if (
+    !Number.isInteger(monitoring.failureLimit) ||
+    !inRange(monitoring.failureLimit, 1, MAX_FAILURE_LIMIT)
+  ) {
+    return `Failed checks before a health alert must be between 1 and ${MAX_FAILURE_LIMIT}`;
+  }
+  if (
+    !Number.isInteger(monitoring.captureRetention) ||
+    !inRange(monitoring.captureRetention, 0, MAX_CAPTURE_RETENTION)
+  ) {
+    return `Kept captures must be between 0 and ${MAX_CAPTURE_RETENTION}`;
+  }
+  return validateSchedule(monitoring.schedule);
+}
+
+// Проверка расписания; null — всё в порядке
+export function validateSchedule(schedule: Schedule): string | null {
+  if (!isValidTimezone(schedule.timezone)) {
+    return `Unknown time zone: ${schedule.timezone}`;
+  }
+  for (const [index, window] of schedule.windows.entries()) {
+    const name = `Schedule window ${index + 1}`;
+    if (
+      window.days.length === 0 ||
+      !window.days.every((day) => Number.isInteger(day) && inRange(day, 0, 6))
+    ) {
+      return `${name}: pick at least one weekday`;
+    }
+    const start = parseTime(window.start);
+    const end = parseTime(window.end);
+    if (start === null || end === null) {
+      return `${name}: times must look like 09:00`;
+    }
+    if (start === end) {
+      return `${name}: start and end must differ`;
+    }
+  }
+  return null;
+}
+
+// Проверка настроек обнаружения; null — всё в порядке
+export function validateDetection(detection: DetectionConfig): string | null {
+  if (!DETECTION_MODES.includes(detection.mode)) {
+    return `Unknown detection mode: ${detection.mode}`;
+  }
+  if (!ALGORITHMS.includes(detection.algorithm)) {
+    return `Unknown algorithm: ${detection.algorithm}`;
+  }
+  if (!COMPARE_SCALES.includes(detection.compareScale)) {
+    return `Comparison resolution must be one of ${COMPARE_SCALES.map((scale) => `${scale * 100}%`).join(', ')}`;
+  }
+  if (detection.mode === 'slots') {
+    if (!detection.slotSelector) {
+      return 'Enter a CSS selector for the slot items';
+    }
+    const conditionError = validateSlotConditions(detection.slotConditions);
+    if (conditionError) {
+      return conditionError;
+    }
+  } else if (detection.mode !== 'visual' && detection.rules.length === 0) {
+    return 'Add at least one text rule';
+  }
+  if (!inRange(detection.threshold, 0, 100)) {
+    return 'Threshold must be between 0 and 100%';
+  }
+  if (
+    !Number.isInteger(detection.tolerance) ||
+    !inRange(detection.tolerance, 0, 255)
+  ) {
+    return 'Color tolerance must be a whole number between 0 and 255';
+  }
+  if (!inRange(detection.cooldownMinutes, 0, MAX_COOLDOWN_MIN)) {
+    return `Repeat interval must be between 0 and ${MAX_COOLDOWN_MIN} minutes`;
+  }
+  if (!inRange(detection.rearmDelta, 0, 100)) {
+    return 'Change movement must be between 0 and 100%';
+  }
+  return null;
+}
@@ -0,0 +1,144 @@
+import { ComparisonResult, DetectionConfig, SlotDiff, Watch } from './types.js';
+
+// Сколько слотов перечисляем в сообщении
+const LISTED_SLOTS_LIMIT = 20;
+// Условие доступности: attr, !attr, attr=value, attr~=слово
+const CONDITION_PATTERN = /^(!)?([\w:-]+)(?:(~?=)(.*))?$/;
+
+// Проверка условий доступности; null — всё в порядке
+export function validateSlotConditions(conditions: string[]): string | null {
+  const invalid = conditions.find(
+    (condition) => !CONDITION_PATTERN.test(condition)
+  );
+  return invalid
+    ? `Invalid availability condition: ${invalid} (use attr, !attr, attr=value or attr~=word)`
+    : null;
+}
+
+// Условия из строки «!disabled, class~=free»
+export function parseSlotConditions(text: string): string[] {
+  return text
+    .split(',')
+    .map((condition) => condition.trim())
+    .filter(Boolean);
+}
+
+// Выполняется в странице: подписи доступных слотов и число всех найденных
+function readSlots(
+  selector: string,
+  conditions: string[],
+  pattern: string
+): { available: string[]; total: number } {
+  const matcher = new RegExp(pattern);
+  const isAvailable = (element: Element) =>
+    conditions.every((condition) => {
+      const [, negate, name = '', operator, expected = ''] =
+        matcher.exec(condition) || [];
+      const value = element.getAttribute(name);
+      const matched =
+        operator === '='
+          ? value === expected
+          : operator === '~='
+            ? (value ?? '').split(/\s+/).includes(expected)
+            : value !== null;
+      return negate ? !matched : matched;
+    });
+
+  const elements = Array.from(document.querySelectorAll(selector));
+  const available = elements.filter(isAvailable).map((element) => {
+    const text =
+      element instanceof HTMLElement ? element.innerText : element.textContent;
+    return (
+      (text || '').replace(/\s+/g, ' ').trim() ||
+      element.getAttribute('aria-label') ||
+      element.getAttribute('title') ||
+      ''
+    );
+  });
+  return {
+    available: Array.from(new Set(available.filter(Boolean))),
+    total: elements.length,
+  };
+}
+
+// Доступные слоты на странице вкладки
+export async function extractSlots(
+  tabId: number,
+  detection: DetectionConfig
+): Promise<{ available: string[]; total: number }> {
+  const [injection] = await chrome.scripting.executeScript({
+    target: { tabId },
+    func: readSlots,
+    args: [
+      detection.slotSelector,
+      detection.slotConditions,
+      CONDITION_PATTERN.source,
+    ],
+  });
+
+  const result = injection?.result;
+  if (!result) {
+    throw new Error(`Could not read slots: ${detection.slotSelector}`);
+  }
+  return result;
+}
+
+// Наблюдение с новыми настройками обнаружения; при смене селектора
+// или условий прошлый список слотов больше не годится для сравнения
+export function withDetection(watch: Watch, detection: DetectionConfig): Watch {
+  const { slots, ...rest } = watch;
+  const sameSlots =
+    detection.slotSelector === watch.detection.slotSelector &&
+    detection.slotConditions.join(',') ===
+      watch.detection.slotConditions.join(',');
+  return { ...rest, ...(slots && sameSlots && { slots }), detection };
+}
+
+// Сравнение с прошлой проверкой: изменение — только появление новых слотов.
+// Без прошлого списка (первая проверка) запоминаем слоты без оповещения
+export function compareSlots(
+  previous: string[] | undefined,
+  available: string[],
+  total: number
+): ComparisonResult {
+  const before = new Set(previous ?? available);
+  const now = new Set(available);
+  const slots: SlotDiff = {
+    available,
+    added: available.filter((item) => !before.has(item)),
+    removed: (previous ?? []).filter((item) => !now.has(item)),
+    total,
+  };
+  const hasChanged = slots.added.length > 0;
+
+  return {
+    mode: 'slots',
+    hasChanged,
+    changePercentage: hasChanged ? 100 : 0,
+    detectedText: available.join(', '),
+    missingPhrases: [],
+    appearedPhrases: slots.added,
+    slots,
+  };
+}
+
+// Список слотов для сообщения
+function listSlots(items: string[]): string {
+  const listed = items.slice(0, LISTED_SLOTS_LIMIT).join(', ');
+  return items.length > LISTED_SLOTS_LIMIT
+    ? `${listed} and ${items.length - LISTED_SLOTS_LIMIT} more`
+    : listed;
+}
+
+// Описание изменений слотов: «New: 21.10 10:30, 23.10 14:00»
+export function describeSlots(slots: SlotDiff): string {
+  const lines: string[] = [];
+  if (slots.added.length > 0) {
+    lines.push(`New: ${listSlots(slots.added)}`);
+  }
+  if (slots.removed.length > 0) {
+    lines.push(`Gone: ${listSlots(slots.removed)}`);
+  }
+  lines.push(`Available now: ${slots.available.length} of ${slots.total}`);
+  return lines.join('\n');
+}
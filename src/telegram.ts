@@ -0,0 +1,126 @@
+import { TelegramConfig } from './types.js';
+
+// Публичный Bot API (можно заменить на локальный сервер для тестов)
+const DEFAULT_API_URL = 'https://api.telegram.org';
+// Ограничение Telegram на длину подписи к фото
+const CAPTION_LIMIT = 1024;
+
+// Фото для отправки
+export interface TelegramPhoto {
+  name: string;
+  blob: Blob;
+}
+
+// Входящее сообщение (только нужные поля)
+export interface TelegramUpdate {
+  update_id: number;
+  message?: {
+    date: number; // unix time, секунды
+    text?: string;
+    chat: { id: number };
+  };
+}
+
+// URL метода Bot API
+function methodUrl(
+  config: Omit<TelegramConfig, 'chatId'>,
+  method: string
+): string {
+  const base = (config.apiUrl || DEFAULT_API_URL).replace(/\/+$/, '');
+  return `${base}/bot${config.botToken}/${method}`;
+}
+
+// Вызов метода Bot API (JSON или multipart)
+export async function callTelegram(
+  config: Omit<TelegramConfig, 'chatId'>,
+  method: string,
+  body: FormData | Record<string, unknown>
+): Promise<unknown> {
+  const response = await fetch(
+    methodUrl(config, method),
+    body instanceof FormData
+      ? { method: 'POST', body }
+      : {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(body),
+        }
+  );
+
+  const result = (await response.json().catch(() => null)) as {
+    ok?: boolean;
+    result?: unknown;
+    description?: string;
+    parameters?: { retry_after?: number };
+  } | null;
+
+  // status и retry_after нужны очереди отправки, чтобы решить, когда повторять
+  if (!response.ok || !result?.ok) {
+    throw Object.assign(
+      new Error(
+        `Telegram ${method} failed: ${result?.description || response.status}`
+      ),
+      {
+        status: response.status,
+        ...(result?.parameters?.retry_after !== undefined && {
+          retryAfter: result.parameters.retry_after,
+        }),
+      }
+    );
+  }
+  return result.result;
+}
+
+// Текстовое сообщение
+export async function sendTelegramMessage(
+  config: TelegramConfig,
+  text: string
+): Promise<void> {
+  await callTelegram(config, 'sendMessage', {
+    chat_id: config.chatId,
+    text,
+  });
+}
+
+// Одно фото (sendPhoto) или альбом (sendMediaGroup) с подписью
+export async function sendTelegramPhotos(
+  config: TelegramConfig,
+  photos: TelegramPhoto[],
+  caption: string
+): Promise<void> {
+  const form = new FormData();
+  form.append('chat_id', config.chatId);
+  const shortCaption = caption.slice(0, CAPTION_LIMIT);
+
+  const [first] = photos;
+  if (first && photos.length === 1) {
+    form.append('photo', first.blob, `${first.name}.png`);
+    form.append('caption', shortCaption);
+    await callTelegram(config, 'sendPhoto', form);
+    return;
+  }
+
+  // Подпись альбома — у первого фото
+  const media = photos.map((photo, index) => ({
+    type: 'photo',
+    media: `attach://${photo.name}`,
+    ...(index === 0 && { caption: shortCaption }),
+  }));
+  form.append('media', JSON.stringify(media));
+  for (const photo of photos) {
+    form.append(photo.name, photo.blob, `${photo.name}.png`);
+  }
+  await callTelegram(config, 'sendMediaGroup', form);
+}
+
+// Новые сообщения боту (offset подтверждает уже обработанные)
+export async function getTelegramUpdates(
+  config: Omit<TelegramConfig, 'chatId'>,
+  offset?: number
+): Promise<TelegramUpdate[]> {
+  return (await callTelegram(config, 'getUpdates', {
+    ...(offset !== undefined && { offset }),
+    timeout: 0,
+    allowed_updates: ['message'],
+  })) as TelegramUpdate[];
+}
@@ -0,0 +1,294 @@
+import {
+  MessageResponse,
+  NotificationChannel,
+  StorageData,
+  TelegramConfig,
+  Watch,
+} from './types.js';
+import { getChannels, setChannelErrors } from './channels.js';
+import { getWatches } from './watches.js';
+import { watchProblems } from './health.js';
+import { base64ToBlob } from './compare.js';
+import {
+  TelegramUpdate,
+  getTelegramUpdates,
+  sendTelegramMessage,
+  sendTelegramPhotos,
+} from './telegram.js';
+
+// Alarm опроса команд бота (минимальный период alarms — 30 секунд)
+export const BOT_ALARM = 'slotwatch_telegram_bot';
+const POLL_INTERVAL_MIN = 0.5;
+// Старые команды (например, после долгого простоя) не выполняем
+const MAX_COMMAND_AGE_SEC = 120;
+
+const HELP_TEXT = `SlotWatch Pro commands:
+/status - state of all watches
+/start [n|name] - start monitoring (all watches without argument)
+/stop [n|name] - stop monitoring (all watches without argument)
+/screenshot [n|name] - capture the watched page now
+/rebase [n|name] - accept the current page as the new reference`;
+
+// Действия background, доступные из бота
+export interface BotActions {
+  start(watchId: string): Promise<MessageResponse>;
+  stop(watchId: string): Promise<MessageResponse>;
+  screenshot(watchId: string): Promise<string>;
+  rebase(watchId: string): Promise<MessageResponse>;
+}
+
+// Бот и чаты, которым разрешено им управлять
+interface BotTarget {
+  config: Omit<TelegramConfig, 'chatId'>;
+  allowedChats: Set<string>;
+}
+
+// Команда от разрешённого чата
+interface BotCommand {
+  bot: BotTarget;
+  chatId: string;
+  name: string;
+  argument: string;
+}
+
+// Каналы с одним токеном опрашиваем одним ботом
+function collectBots(channels: NotificationChannel[]): Map<string, BotTarget> {
+  const bots = new Map<string, BotTarget>();
+
+  for (const channel of channels) {
+    if (channel.type !== 'telegram' || !channel.token) continue;
+
+    const bot = bots.get(channel.token) || {
+      config: {
+        botToken: channel.token,
+        ...(channel.serverUrl && { apiUrl: channel.serverUrl }),
+      },
+      allowedChats: new Set<string>(),
+    };
+    channel.recipients.forEach((chatId) => bot.allowedChats.add(chatId));
+    bots.set(channel.token, bot);
+  }
+  return bots;
+}
+
+// Включаем опрос, только если есть Telegram каналы
+export async function syncBotPolling() {
+  const bots = collectBots(await getChannels());
+
+  if (bots.size === 0) {
+    await chrome.alarms.clear(BOT_ALARM);
+    return;
+  }
+
+  if (!(await chrome.alarms.get(BOT_ALARM))) {
+    await chrome.alarms.create(BOT_ALARM, {
+      delayInMinutes: POLL_INTERVAL_MIN,
+      periodInMinutes: POLL_INTERVAL_MIN,
+    });
+  }
+}
+
+// Разбор "/cmd@bot аргумент"
+function parseCommand(text: string): { name: string; argument: string } | null {
+  const match = text.trim().match(/^\/(\w+)(?:@\w+)?(?:\s+(.*))?$/s);
+  if (!match?.[1]) return null;
+  return { name: match[1].toLowerCase(), argument: (match[2] || '').trim() };
+}
+
+// Команды из новых сообщений (чужие чаты игнорируются)
+function extractCommands(
+  bot: BotTarget,
+  updates: TelegramUpdate[]
+): BotCommand[] {
+  const now = Date.now() / 1000;
+  const commands: BotCommand[] = [];
+
+  for (const update of updates) {
+    const message = update.message;
+    if (!message?.text) continue;
+
+    const chatId = String(message.chat.id);
+    if (!bot.allowedChats.has(chatId)) {
+      console.warn(`Bot command from unknown chat ${chatId} ignored`);
+      continue;
+    }
+    if (now - message.date > MAX_COMMAND_AGE_SEC) continue;
+
+    const command = parseCommand(message.text);
+    if (command) commands.push({ bot, chatId, ...command });
+  }
+  return commands;
+}
+
+// Опрос всех ботов и выполнение команд
+export async function pollBotCommands(actions: BotActions) {
+  const channels = await getChannels();
+  const bots = collectBots(channels);
+  const data = (await chrome.storage.local.get(
+    'botOffsets'
+  )) as Partial<StorageData>;
+  const offsets = { ...(data.botOffsets || {}) };
+
+  for (const [token, bot] of bots) {
+    try {
+      const updates = await getTelegramUpdates(bot.config, offsets[token]);
+      if (updates.length === 0) continue;
+
+      // Подтверждаем сразу, чтобы команда не выполнилась повторно
+      offsets[token] =
+        Math.max(...updates.map((update) => update.update_id)) + 1;
+      await chrome.storage.local.set({ botOffsets: offsets });
+
+      for (const command of extractCommands(bot, updates)) {
+        await runCommand(command, actions);
+      }
+    } catch (error) {
+      console.error('Bot polling error:', error);
+      // Отозванный токен иначе обнаружится, только когда не дойдёт alert
+      const message = error instanceof Error ? error.message : '';
+      if (/Unauthorized|Not Found/.test(message)) {
+        await setChannelErrors(
+          new Map(
+            channels
+              .filter(
+                (channel) =>
+                  channel.type === 'telegram' && channel.token === token
+              )
+              .map((channel) => [channel.id, message])
+          )
+        );
+      }
+    }
+  }
+}
+
+// Наблюдения по аргументу: номер из /status, часть имени или все
+async function selectWatches(argument: string): Promise<Watch[]> {
+  const watches = await getWatches();
+  if (!argument) return watches;
+
+  const index = Number(argument);
+  if (Number.isInteger(index)) {
+    const watch = watches[index - 1];
+    return watch ? [watch] : [];
+  }
+
+  const query = argument.toLowerCase();
+  return watches.filter((watch) => watch.name.toLowerCase().includes(query));
+}
+
+// Одно наблюдение для команд, которым нужна конкретная страница
+async function selectOneWatch(argument: string): Promise<Watch> {
+  const watches = await selectWatches(argument);
+  const [watch] = watches;
+
+  if (!watch) {
+    throw new Error(argument ? `No watch matches "${argument}"` : 'No watches');
+  }
+  if (watches.length > 1) {
+    throw new Error('Several watches match, pass a number from /status');
+  }
+  return watch;
+}
+
+// Строка статуса наблюдения
+function describeWatch(watch: Watch, index: number): string {
+  const { monitoring } = watch;
+  const lastCheck = monitoring.lastCheckTime
+    ? new Date(monitoring.lastCheckTime).toLocaleString()
+    : 'never';
+  const lastChange =
+    monitoring.lastChangePercentage !== undefined
+      ? `${monitoring.lastChangePercentage}%`
+      : '-';
+
+  const problems = watchProblems(watch, Date.now());
+
+  return `${index + 1}. ${watch.name} - ${monitoring.isActive ? (problems.length > 0 ? '🟠 failing' : '🟢 active') : '⚪ stopped'}
+Last check: ${lastCheck}, last change: ${lastChange}${problems.map((problem) => `\n⚠️ ${problem}`).join('')}`;
+}
+
+// Старт/стоп для выбранных наблюдений
+async function toggleWatches(
+  argument: string,
+  action: (watchId: string) => Promise<MessageResponse>,
+  verb: string
+): Promise<string> {
+  const watches = await selectWatches(argument);
+  if (watches.length === 0) {
+    return argument ? `No watch matches "${argument}"` : 'No watches';
+  }
+
+  const lines: string[] = [];
+  for (const watch of watches) {
+    const response = await action(watch.id);
+    lines.push(
+      response.success
+        ? `${watch.name}: ${verb}`
+        : `${watch.name}: ${response.error}`
+    );
+  }
+  return lines.join('\n');
+}
+
+// Выполнение команды и ответ в чат
+async function runCommand(command: BotCommand, actions: BotActions) {
+  const config = { ...command.bot.config, chatId: command.chatId };
+  console.log(`Bot command: /${command.name} ${command.argument}`);
+
+  try {
+    switch (command.name) {
+      case 'status': {
+        const watches = await getWatches();
+        await sendTelegramMessage(
+          config,
+          watches.length > 0
+            ? watches.map(describeWatch).join('\n\n')
+            : 'No watches'
+        );
+        return;
+      }
+      case 'start':
+        await sendTelegramMessage(
+          config,
+          await toggleWatches(command.argument, actions.start, 'started')
+        );
+        return;
+      case 'stop':
+        await sendTelegramMessage(
+          config,
+          await toggleWatches(command.argument, actions.stop, 'stopped')
+        );
+        return;
+      case 'screenshot': {
+        const watch = await selectOneWatch(command.argument);
+        const screenshot = await actions.screenshot(watch.id);
+        await sendTelegramPhotos(
+          config,
+          [{ name: 'current', blob: base64ToBlob(screenshot) }],
+          `${watch.name}\n${watch.url}`
+        );
+        return;
+      }
+      case 'rebase': {
+        const watch = await selectOneWatch(command.argument);
+        const response = await actions.rebase(watch.id);
+        await sendTelegramMessage(
+          config,
+          response.success
+            ? `${watch.name}: current page saved as the new reference`
+            : `${watch.name}: ${response.error}`
+        );
+        return;
+      }
+      default:
+        await sendTelegramMessage(config, HELP_TEXT);
+    }
+  } catch (error) {
+    console.error('Bot command error:', error);
+    await sendTelegramMessage(
+      config,
+      `⚠️ ${error instanceof Error ? error.message : 'Unknown error'}`
+    ).catch(() => undefined);
+  }
+}
@@ -0,0 +1,70 @@
+import { ComparisonResult, DetectionConfig, TextRule } from './types.js';
+
+// Сколько текста страницы сохраняем в результате
+const DETECTED_TEXT_LIMIT = 500;
+
+// Нормализация для сравнения: регистр и пробелы не важны
+function normalize(text: string): string {
+  return text.replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+// Текст страницы (или элемента по селектору) через content script
+export async function readPageText(
+  tabId: number,
+  selector: string
+): Promise<string> {
+  const [injection] = await chrome.scripting.executeScript({
+    target: { tabId },
+    args: [selector],
+    func: (selector: string) => {
+      const element = selector
+        ? document.querySelector<HTMLElement>(selector)
+        : document.body;
+      return element ? element.innerText : null;
+    },
+  });
+
+  const text = injection?.result;
+  if (typeof text !== 'string') {
+    throw new Error(`Element not found: ${selector || 'body'}`);
+  }
+  return text;
+}
+
+// Сработало ли правило на данном тексте
+function isRuleTriggered(rule: TextRule, normalizedText: string): boolean {
+  const found = normalizedText.includes(normalize(rule.phrase));
+  return rule.condition === 'absent' ? !found : found;
+}
+
+// Проверка текстовых правил
+export function evaluateTextRules(
+  text: string,
+  detection: DetectionConfig
+): ComparisonResult {
+  const normalizedText = normalize(text);
+  const rules = detection.rules.filter((rule) => rule.phrase.trim());
+  const triggered = rules.filter((rule) =>
+    isRuleTriggered(rule, normalizedText)
+  );
+
+  // Процент сработавших правил
+  const changePercentage =
+    rules.length > 0 ? (triggered.length / rules.length) * 100 : 0;
+
+  return {
+    mode: 'text',
+    hasChanged: triggered.length > 0,
+    changePercentage: parseFloat(changePercentage.toFixed(2)),
+    detectedText: text
+      .replace(/\s+/g, ' ')
+      .trim()
+      .slice(0, DETECTED_TEXT_LIMIT),
+    missingPhrases: triggered
+      .filter((rule) => rule.condition === 'absent')
+      .map((rule) => rule.phrase),
+    appearedPhrases: triggered
+      .filter((rule) => rule.condition === 'present')
+      .map((rule) => rule.phrase),
+  };
+}
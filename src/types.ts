@@ -2,31 +2,321 @@
 export interface TelegramConfig {
   botToken: string;
   chatId: string;
+  apiUrl?: string; // свой Bot API сервер, по умолчанию api.telegram.org
+}
+
+// Тип канала уведомлений
+export type ChannelType =
+  | 'telegram'
+  | 'webhook'
+  | 'discord'
+  | 'slack'
+  | 'ntfy'
+  | 'gotify'
+  | 'browser';
+
+// Канал уведомлений; смысл полей зависит от типа
+export interface NotificationChannel {
+  id: string;
+  name: string;
+  type: ChannelType;
+  recipients: string[]; // chat ID, URL вебхуков, топики ntfy, токены Gotify
+  token?: string; // токен бота / доступа
+  serverUrl?: string; // Bot API, сервер ntfy/Gotify
+  template?: string; // JSON шаблон тела вебхука
+  lastError?: string; // последняя доставка не удалась (или бот отозван)
+}
+
+// Прямоугольник в пикселях скриншота
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Ещё один вариант страницы «без изменений» (другой баннер, техработы)
+export interface Baseline {
+  id: string;
+  timestamp: number;
+  screenshotId: string; // снимок в хранилище скриншотов
+  source: 'manual' | 'learned';
 }
 
 // Дефолтный снимок страницы
 export interface ReferenceSnapshot {
   url: string;
   timestamp: number;
-  screenshot: string; 
+  screenshotId: string; // снимок в хранилище скриншотов (IndexedDB)
   keyPhrases: string[]; // deprecated, not used in visual comparison
+  region?: Rect; // сравниваемая область, без неё — весь скриншот
+  masks?: Rect[]; // области, которые всегда игнорируются
+  baselines?: Baseline[]; // совпадение с любым из них — тоже «без изменений»
+}
+
+// Эталон для popup: снимки загружены из хранилища скриншотов
+export interface ReferencePreview extends ReferenceSnapshot {
+  screenshot: string;
+  baselineScreenshots: Record<string, string>; // data URL по id варианта
+}
+
+// Откуда снимок в хранилище: эталон, вариант эталона или обычная проверка
+export type CaptureKind = 'reference' | 'baseline' | 'check';
+
+// Снимок в хранилище скриншотов
+export interface Capture {
+  id: string;
+  watchId: string;
+  timestamp: number;
+  kind: CaptureKind;
+  blob: Blob;
+  changePercentage?: number;
+}
+
+// Окно расписания: дни недели (0 — воскресенье) и время "HH:MM"
+export interface ScheduleWindow {
+  days: number[];
+  start: string;
+  end: string; // раньше start — окно через полночь
+}
+
+// Когда разрешены проверки
+export interface Schedule {
+  timezone: string; // IANA, например Europe/Moscow
+  windows: ScheduleWindow[]; // пустой — круглосуточно
 }
 
 // Настройки мониторинга
 export interface MonitoringConfig {
   isActive: boolean;
-  intervalMin: number; 
-  intervalMax: number; 
-  autoRefresh: boolean; 
-  refreshDelay: number; 
+  intervalMin: number;
+  intervalMax: number;
+  autoRefresh: boolean;
+  fullPage: boolean; // снимать всю страницу прокруткой, а не только видимую часть
+  settleTime: number; // мс без изменений DOM, после которых страница готова
+  readyTimeout: number; // мс на загрузку; дольше — снимок ненадёжен
+  readySelector: string; // дождаться элемента, пустой — не ждать
+  activityPause: number; // с после действий пользователя на странице без проверок, 0 — не ждать
+  alertSuspend: number; // мин без проверок после alert, 0 — не приостанавливать
+  failureLimit: number; // столько ошибок подряд — health alert
+  problemTexts: string[]; // фразы страниц «сессия истекла», «доступ запрещён»
+  problemSelectors: string[]; // элементы капчи и страниц ошибок
+  captureRetention: number; // сколько снимков проверок хранить, 0 — не хранить
+  schedule: Schedule;
+  nextCheckTime?: number; // на когда запланирована следующая проверка
+  stalledSince?: number; // проверка на это время не состоялась (alarm потерян)
+  suspendedUntil?: number; // приостановлено после alert до этого времени
+  pausedReason?: string; // почему пропущена последняя проверка
   lastCheckTime?: number;
+  lastChangePercentage?: number;
+  lastError?: string; // ошибка последней проверки, например потерянная вкладка
+  failures?: number; // проверок подряд с ошибкой
 }
 
-// Хранилище данных расширения
-export interface StorageData {
-  telegram?: TelegramConfig;
+// Действия пользователя на странице (от content script)
+export interface PageActivity {
+  lastActivity: number; // время последнего действия, 0 — не было
+  lastEvent: string;
+  editing: boolean; // фокус в поле ввода, которое пользователь уже трогал
+}
+
+// Сообщения background → content script вкладки
+export type TabMessage = { type: 'GET_ACTIVITY' };
+
+// Способ обнаружения изменений
+export type DetectionMode = 'visual' | 'text' | 'ocr' | 'slots';
+
+// Алгоритм визуального сравнения
+export type CompareAlgorithm = 'pixel' | 'ssim' | 'phash';
+
+// Текстовое правило: срабатывает, когда фраза пропала или появилась
+export interface TextRule {
+  phrase: string;
+  condition: 'absent' | 'present';
+}
+
+// Настройки обнаружения
+export interface DetectionConfig {
+  mode: DetectionMode;
+  selector: string; // CSS селектор для текста, пустой — вся страница
+  rules: TextRule[];
+  slotSelector: string; // CSS селектор элементов-слотов (режим slots)
+  slotConditions: string[]; // атрибуты доступного слота: attr, !attr, attr=value, attr~=слово
+  algorithm: CompareAlgorithm;
+  compareScale: number; // масштаб снимков при сравнении: 1, 0.5 или 0.25
+  threshold: number; // % изменений, после которого срабатывает alert
+  tolerance: number; // допуск по каналу цвета 0-255
+  cooldownMinutes: number; // повторный alert не чаще, 0 — на каждой проверке
+  rearmDelta: number; // повтор раньше cooldown при сдвиге % на столько пунктов, 0 — выкл.
+  notifyRecovery: boolean; // сообщать о возврате к эталону
+}
+
+// Фаза оповещений: эталон, изменение уже отправлено, вернулось к эталону
+export type AlertPhase = 'baseline' | 'notified' | 'recovered';
+
+// Что отправлено по итогам проверки
+export type AlertAction = 'alert' | 'repeat' | 'recovered' | null;
+
+// Состояние оповещений наблюдения
+export interface AlertState {
+  phase: AlertPhase;
+  changedSince?: number; // когда страница перестала совпадать с эталоном
+  lastAlertTime?: number;
+  lastAlertPercentage?: number;
+}
+
+// Итог калибровки: шум страницы и рекомендации
+export interface CalibrationResult {
+  samples: number[]; // % изменений каждой проверки
+  mean: number;
+  max: number;
+  suggestedThreshold: number;
+  suggestedMasks: Rect[]; // области, менявшиеся почти каждый раз
+  algorithm: CompareAlgorithm;
+}
+
+// Ход калибровки наблюдения
+export interface CalibrationState {
+  status: 'running' | 'done' | 'failed';
+  done: number;
+  total: number;
+  result?: CalibrationResult;
+  error?: string;
+}
+
+// Обучение: новые варианты страницы становятся эталонами без оповещений
+export interface LearningState {
+  until: number;
+  added: number; // сколько вариантов собрано
+}
+
+// Доступные слоты прошлой проверки
+export interface SlotState {
+  items: string[];
+  checkedAt: number;
+}
+
+// Вкладка и окно, в которых открыта страница наблюдения
+export interface TabBinding {
+  tabId: number;
+  windowId: number;
+}
+
+// Отдельное наблюдение за страницей
+export interface Watch {
+  id: string;
+  name: string;
+  url: string;
   reference?: ReferenceSnapshot;
   monitoring: MonitoringConfig;
+  detection: DetectionConfig;
+  channelIds: string[]; // включённые для наблюдения каналы
+  alertState: AlertState;
+  calibration?: CalibrationState;
+  tab?: TabBinding;
+  learning?: LearningState;
+  slots?: SlotState;
+}
+
+// Запись журнала проверок
+export interface CheckRecord {
+  id: string;
+  timestamp: number;
+  watchId: string;
+  watchName: string;
+  mode: DetectionMode;
+  hasChanged: boolean;
+  changePercentage: number | null; // null — проверка не состоялась
+  algorithm?: CompareAlgorithm;
+  score?: number;
+  alert?: Exclude<AlertAction, null>;
+  deliveries: DeliveryResult[];
+  error?: string;
+  unreliable?: string; // страница не дождалась готовности, alert не отправлялся
+  learned?: boolean; // снимок добавлен в эталоны при обучении
+  slots?: SlotDiff;
+  captureId?: string; // снимок проверки в галерее (пока не удалён по сроку)
+  timings?: CheckTimings;
+  durationMs: number;
+}
+
+// Из чего сложилось время проверки, мс
+export interface CheckTimings {
+  readyMs: number; // ожидание готовности страницы
+  captureMs?: number; // скриншот
+  decodeMs?: number; // декодирование снимков (эталоны берутся из кэша)
+  compareMs: number; // сравнение, распознавание или разбор страницы
+}
+
+// Неполадка самого мониторинга, о которой уже отправлен health alert
+export interface HealthIssue {
+  key: string; // одна неполадка — одно оповещение
+  message: string;
+  since: number;
+  watchId?: string;
+  channelId?: string;
+}
+
+// Хранилище данных расширения
+export interface StorageData {
+  channels: NotificationChannel[];
+  watches: Watch[];
+  history: CheckRecord[]; // от старых к новым
+  botOffsets: Record<string, number>; // getUpdates offset по токену бота
+  healthIssues: HealthIssue[];
+  outbox: OutboxEntry[]; // уведомления, ещё не доставленные во все каналы
+  storageVersion: number; // версия схемы (migrations.ts), нет — до версий
+}
+
+// Файл экспорта: наблюдения, каналы и снимки их эталонов
+export interface Backup {
+  format: 'slotwatch-backup';
+  version: number; // версия схемы хранилища, в которой сделан экспорт
+  exportedAt: number;
+  watches: Watch[];
+  channels: NotificationChannel[];
+  captures: BackupCapture[];
+}
+
+// Снимок эталона или варианта в файле экспорта (data URL)
+export interface BackupCapture {
+  id: string;
+  watchId: string;
+  timestamp: number;
+  kind: CaptureKind;
+  data: string;
+}
+
+// Уведомление в очереди отправки; картинки лежат в IndexedDB
+// (Blob в storage не сохранить), здесь только их id
+export interface QueuedNotification {
+  title: string;
+  text: string;
+  watchName?: string;
+  url?: string;
+  changePercentage?: number;
+  images: { name: string; imageId: string }[];
+}
+
+// Доставка одному получателю канала
+export interface OutboxDelivery {
+  id: string;
+  channelId: string;
+  channelName: string;
+  recipient?: string; // без него — все получатели канала (браузер)
+  status: 'pending' | 'failed'; // failed — попытки кончились, ждёт ручного повтора
+  attempts: number;
+  nextAttempt: number;
+  lastError?: string;
+}
+
+// Уведомление и его недоставленные получатели; доставленные удаляются
+export interface OutboxEntry {
+  id: string;
+  createdAt: number;
+  watchId?: string;
+  notification: QueuedNotification;
+  deliveries: OutboxDelivery[];
 }
 
 // Сообщения между popup и background
@@ -36,6 +326,36 @@ export enum MessageType {
   STOP_MONITORING = 'STOP_MONITORING',
   GET_STATUS = 'GET_STATUS',
   SAVE_SETTINGS = 'SAVE_SETTINGS',
+  ADD_WATCH = 'ADD_WATCH',
+  DELETE_WATCH = 'DELETE_WATCH',
+  GET_REFERENCE = 'GET_REFERENCE',
+  SET_AREAS = 'SET_AREAS',
+  SET_DETECTION = 'SET_DETECTION',
+  OCR_RECOGNIZE = 'OCR_RECOGNIZE',
+  COMPARE_SCREENSHOTS = 'COMPARE_SCREENSHOTS',
+  CALIBRATION_SAMPLE = 'CALIBRATION_SAMPLE',
+  EVICT_REFERENCES = 'EVICT_REFERENCES',
+  RENDER_DIFF = 'RENDER_DIFF',
+  GET_CHANNELS = 'GET_CHANNELS',
+  SAVE_CHANNEL = 'SAVE_CHANNEL',
+  DELETE_CHANNEL = 'DELETE_CHANNEL',
+  TEST_CHANNEL = 'TEST_CHANNEL',
+  SET_WATCH_CHANNELS = 'SET_WATCH_CHANNELS',
+  GET_HISTORY = 'GET_HISTORY',
+  CLEAR_HISTORY = 'CLEAR_HISTORY',
+  START_CALIBRATION = 'START_CALIBRATION',
+  APPLY_CALIBRATION = 'APPLY_CALIBRATION',
+  DISMISS_CALIBRATION = 'DISMISS_CALIBRATION',
+  ADD_BASELINE = 'ADD_BASELINE',
+  DELETE_BASELINE = 'DELETE_BASELINE',
+  START_LEARNING = 'START_LEARNING',
+  STOP_LEARNING = 'STOP_LEARNING',
+  GET_OUTBOX = 'GET_OUTBOX',
+  RESEND_DELIVERY = 'RESEND_DELIVERY',
+  DISCARD_DELIVERY = 'DISCARD_DELIVERY',
+  PROMOTE_CAPTURE = 'PROMOTE_CAPTURE',
+  EXPORT_BACKUP = 'EXPORT_BACKUP',
+  IMPORT_BACKUP = 'IMPORT_BACKUP',
 }
 
 export interface Message {
@@ -43,6 +363,151 @@ export interface Message {
   payload?: unknown;
 }
 
+// Payload сообщений, относящихся к конкретному наблюдению
+export interface WatchPayload {
+  watchId: string;
+}
+
+export interface AddWatchPayload {
+  name: string;
+}
+
+export interface AreasPayload {
+  watchId: string;
+  region: Rect | null;
+  masks: Rect[];
+}
+
+export interface DetectionPayload {
+  watchId: string;
+  detection: DetectionConfig;
+}
+
+// Редактируемая часть настроек мониторинга
+export type MonitoringSettings = Pick<
+  MonitoringConfig,
+  | 'intervalMin'
+  | 'intervalMax'
+  | 'autoRefresh'
+  | 'fullPage'
+  | 'settleTime'
+  | 'readyTimeout'
+  | 'readySelector'
+  | 'activityPause'
+  | 'alertSuspend'
+  | 'failureLimit'
+  | 'problemTexts'
+  | 'problemSelectors'
+  | 'captureRetention'
+  | 'schedule'
+>;
+
+export interface SettingsPayload {
+  watchId: string;
+  monitoring: MonitoringSettings;
+  detection: DetectionConfig;
+}
+
+export interface ChannelPayload {
+  channel: NotificationChannel;
+}
+
+export interface ChannelIdPayload {
+  channelId: string;
+}
+
+export interface WatchChannelsPayload {
+  watchId: string;
+  channelIds: string[];
+}
+
+export interface CalibrationPayload {
+  watchId: string;
+  samples: number;
+}
+
+export interface BaselinePayload {
+  watchId: string;
+  baselineId: string;
+}
+
+export interface LearningPayload {
+  watchId: string;
+  minutes: number;
+}
+
+export interface ExportPayload {
+  includeTokens: boolean; // false — без токенов ботов Telegram (для передачи)
+}
+
+export interface ImportPayload {
+  backup: Backup;
+}
+
+export interface CapturePayload {
+  watchId: string;
+  captureId: string;
+}
+
+export interface OutboxPayload {
+  entryId: string;
+  deliveryId: string;
+}
+
+export interface ApplyCalibrationPayload {
+  watchId: string;
+  applyMasks: boolean;
+}
+
+export interface ClearHistoryPayload {
+  watchId?: string; // без него — весь журнал
+}
+
+// Запрос OCR в offscreen документ
+export interface OcrPayload {
+  image: string;
+  region?: Rect;
+}
+
+// Запрос сравнения со снимками эталона в offscreen документ
+export interface ComparePayload {
+  watchId: string;
+  reference: ReferenceSnapshot;
+  screenshot: string;
+  detection: DetectionConfig;
+}
+
+// Результат сравнения и его время, мс
+export interface VisualComparison {
+  comparison: ComparisonResult;
+  decodeMs: number;
+  compareMs: number;
+}
+
+// Шумные ячейки сетки одной проверки калибровки (в масштабе сравнения)
+export interface NoiseSample {
+  width: number;
+  height: number;
+  cells: number[];
+}
+
+// Проверка калибровки: сравнение как у обычной проверки и шум; шума нет,
+// если размер снимка отличается от эталона
+export interface CalibrationSample extends VisualComparison {
+  noise?: NoiseSample;
+}
+
+// Карта изменений: с каким снимком совпала страница и как они совмещены
+export interface DiffPayload extends ComparePayload {
+  alignment?: ImageAlignment;
+  baselineId?: string;
+}
+
+// Наблюдения, чьи декодированные эталоны больше не нужны
+export interface EvictPayload {
+  watchIds: string[];
+}
+
 // Ответ от background script
 export interface MessageResponse {
   success: boolean;
@@ -50,6 +515,32 @@ export interface MessageResponse {
   error?: string;
 }
 
+// Статус наблюдения для popup (без тяжёлого скриншота)
+export interface WatchStatus {
+  id: string;
+  name: string;
+  url: string;
+  hasReference: boolean;
+  ready: boolean; // хватает ли данных для запуска мониторинга
+  monitoring: MonitoringConfig;
+  detection: DetectionConfig;
+  channelIds: string[];
+  alertState: AlertState;
+  calibration?: CalibrationState;
+  baselineCount: number; // дополнительные эталоны
+  learning?: LearningState;
+  problems: string[]; // неполадки мониторинга (ошибки подряд, остановившиеся проверки)
+}
+
+// Результат доставки в один канал
+export interface DeliveryResult {
+  channelId: string;
+  channelName: string;
+  success: boolean;
+  error?: string;
+  queued?: boolean; // не доставлено с первой попытки, очередь повторит
+}
+
 // Результат OCR распознавания
 export interface OCRResult {
   text: string;
@@ -58,8 +549,33 @@ export interface OCRResult {
 
 // Результат сравнения
 export interface ComparisonResult {
+  mode: DetectionMode;
   hasChanged: boolean;
-  changePercentage: number; 
-  detectedText: string; 
-  missingPhrases: string[]; 
-}
\ No newline at end of file
+  changePercentage: number;
+  detectedText: string;
+  missingPhrases: string[];
+  appearedPhrases: string[];
+  ocr?: OCRResult;
+  algorithm?: CompareAlgorithm;
+  score?: number; // «сырая» метрика алгоритма (пиксели, SSIM, биты хеша)
+  alignment?: ImageAlignment; // размеры снимков различались
+  baselineId?: string; // ближе всего оказался этот вариант, а не основной эталон
+  slots?: SlotDiff;
+}
+
+// Изменение списка доступных слотов с прошлой проверки
+export interface SlotDiff {
+  available: string[];
+  added: string[];
+  removed: string[];
+  total: number; // всех найденных элементов, включая недоступные
+}
+
+// Совмещение снимков разного размера: общая часть начинается
+// с refX в эталоне и с curX в текущем снимке, по вертикали — сверху
+export interface ImageAlignment {
+  refX: number;
+  curX: number;
+  width: number;
+  height: number;
+}
@@ -0,0 +1,62 @@
+import { MonitoringConfig, PageActivity, TabMessage } from './types.js';
+
+// Файл content script в dist
+const ACTIVITY_SCRIPT = 'activity.js';
+
+// Ответ content script; undefined — во вкладке его нет
+async function queryActivity(tabId: number): Promise<PageActivity | undefined> {
+  const message: TabMessage = { type: 'GET_ACTIVITY' };
+  try {
+    return (await chrome.tabs.sendMessage(tabId, message)) as PageActivity;
+  } catch {
+    return undefined;
+  }
+}
+
+// Подключение content script во вкладку
+async function injectScript(tabId: number) {
+  await chrome.scripting
+    .executeScript({ target: { tabId }, files: [ACTIVITY_SCRIPT] })
+    .catch((error) => console.warn('Activity script injection:', error));
+}
+
+// Content script только во вкладке наблюдения, а не на всех сайтах.
+// После перезагрузки в новом документе его нет — подключаем заново
+export async function injectActivityScript(tabId: number) {
+  if (!(await queryActivity(tabId))) {
+    await injectScript(tabId);
+  }
+}
+
+// Действия пользователя во вкладке; undefined — content script ещё не было
+export async function getPageActivity(
+  tabId: number
+): Promise<PageActivity | undefined> {
+  const activity = await queryActivity(tabId);
+  if (!activity) {
+    await injectScript(tabId);
+  }
+  return activity;
+}
+
+// Почему проверку надо отложить; null — пользователь страницу не трогает
+export function activityPauseReason(
+  activity: PageActivity | undefined,
+  monitoring: MonitoringConfig,
+  now: number
+): string | null {
+  if (!activity || monitoring.activityPause === 0) {
+    return null;
+  }
+
+  // Фокус в поле держит паузу тоже только в пределах окна: забытый
+  // в поле курсор не должен останавливать проверки навсегда
+  const idle = now - activity.lastActivity;
+  if (!activity.lastActivity || idle >= monitoring.activityPause * 1000) {
+    return null;
+  }
+  if (activity.editing) {
+    return 'You are filling in a field on the page';
+  }
+  return `You used the page ${Math.round(idle / 1000)} s ago (${activity.lastEvent})`;
+}
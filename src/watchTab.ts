@@ -0,0 +1,174 @@
+import { Watch } from './types.js';
+import { updateWatch } from './watches.js';
+import { captureFullPage } from './fullPage.js';
+
+// Сколько ждать загрузки заново открытой вкладки
+const OPEN_TIMEOUT = 30_000;
+const OPEN_POLL_MS = 250;
+
+// Адрес без #фрагмента: якорь не меняет страницу
+function normalizeUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    parsed.hash = '';
+    return parsed.href;
+  } catch {
+    return url;
+  }
+}
+
+// Открыта ли во вкладке страница наблюдения
+export function isWatchUrl(watch: Watch, url?: string): boolean {
+  return !!url && normalizeUrl(url) === normalizeUrl(watch.url);
+}
+
+// Вкладка по id; закрытая — undefined
+async function getTab(tabId: number): Promise<chrome.tabs.Tab | undefined> {
+  try {
+    return await chrome.tabs.get(tabId);
+  } catch {
+    return undefined;
+  }
+}
+
+// Существует ли ещё окно
+async function hasWindow(windowId: number): Promise<boolean> {
+  try {
+    await chrome.windows.get(windowId);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Ожидание загрузки вкладки опросом (событие могло уже пройти)
+async function waitForLoad(tabId: number): Promise<chrome.tabs.Tab> {
+  const started = Date.now();
+  for (;;) {
+    const tab = await getTab(tabId);
+    if (!tab) {
+      throw new Error('Watch tab was closed while loading');
+    }
+    if (tab.status === 'complete') {
+      return tab;
+    }
+    if (Date.now() - started >= OPEN_TIMEOUT) {
+      throw new Error('Reopened watch tab did not finish loading');
+    }
+    await new Promise((resolve) => setTimeout(resolve, OPEN_POLL_MS));
+  }
+}
+
+// Открываем страницу заново: в прежнем окне, а если его нет — в новом
+async function openWatchTab(watch: Watch): Promise<chrome.tabs.Tab> {
+  let tab: chrome.tabs.Tab | undefined;
+  if (watch.tab && (await hasWindow(watch.tab.windowId))) {
+    tab = await chrome.tabs.create({
+      windowId: watch.tab.windowId,
+      url: watch.url,
+      active: false,
+    });
+  } else {
+    const created = await chrome.windows.create({
+      url: watch.url,
+      focused: false,
+    });
+    tab = created?.tabs?.[0];
+  }
+
+  if (!tab?.id) {
+    throw new Error(`Could not open ${watch.url}`);
+  }
+  console.log(`[${watch.name}] Watch tab reopened`);
+  return await waitForLoad(tab.id);
+}
+
+// Запоминаем вкладку и окно наблюдения
+export async function bindWatchTab(watchId: string, tab: chrome.tabs.Tab) {
+  if (!tab.id) return;
+  const binding = { tabId: tab.id, windowId: tab.windowId };
+  await updateWatch(watchId, (current) =>
+    current.tab?.tabId === binding.tabId &&
+    current.tab.windowId === binding.windowId
+      ? current
+      : { ...current, tab: binding }
+  );
+}
+
+// Вкладка наблюдения: привязанная, другая с тем же адресом или открытая
+// заново. Чужую страницу в привязанной вкладке не трогаем — это ошибка
+export async function resolveWatchTab(watch: Watch): Promise<chrome.tabs.Tab> {
+  const bound = watch.tab && (await getTab(watch.tab.tabId));
+  if (bound && isWatchUrl(watch, bound.url)) {
+    return bound;
+  }
+
+  const tabs = await chrome.tabs.query({});
+  const matching = tabs.filter((tab) => tab.id && isWatchUrl(watch, tab.url));
+  const sameWindow = matching.filter(
+    (tab) => tab.windowId === watch.tab?.windowId
+  );
+  let tab =
+    sameWindow.find((item) => item.active) ||
+    sameWindow[0] ||
+    matching.find((item) => item.active) ||
+    matching[0];
+
+  if (!tab && bound) {
+    throw new Error(`Watch tab shows ${bound.url} instead of ${watch.url}`);
+  }
+  tab = tab || (await openWatchTab(watch));
+  await bindWatchTab(watch.id, tab);
+
+  if (!isWatchUrl(watch, tab.url)) {
+    throw new Error(`${watch.url} redirected to ${tab.url}`);
+  }
+  return tab;
+}
+
+// Актуальное состояние вкладки; страница должна остаться той же
+export async function verifyWatchTab(
+  watch: Watch,
+  tabId: number
+): Promise<chrome.tabs.Tab> {
+  const tab = await getTab(tabId);
+  if (!tab) {
+    throw new Error('Watch tab was closed');
+  }
+  if (!isWatchUrl(watch, tab.url)) {
+    throw new Error(`Watch tab shows ${tab.url} instead of ${watch.url}`);
+  }
+  return tab;
+}
+
+// Снимок вкладки: делаем её активной и разворачиваем окно
+export async function captureTab(tab: chrome.tabs.Tab): Promise<string> {
+  if (!tab.active && tab.id) {
+    await chrome.tabs.update(tab.id, { active: true });
+  }
+  const { state } = await chrome.windows.get(tab.windowId);
+  if (state === 'minimized') {
+    await chrome.windows.update(tab.windowId, { state: 'normal' });
+  }
+  return await chrome.tabs.captureVisibleTab(tab.windowId, {
+    format: 'png',
+  });
+}
+
+// Снимок страницы наблюдения (видимой части или всей страницы);
+// если во время снимка вкладку переключили или увели на другой адрес —
+// снимок чужой страницы, ошибка
+export async function captureWatchTab(
+  watch: Watch,
+  tabId: number
+): Promise<string> {
+  const tab = await verifyWatchTab(watch, tabId);
+  const screenshot = watch.monitoring.fullPage
+    ? await captureFullPage(tabId, () => captureTab(tab))
+    : await captureTab(tab);
+  const after = await verifyWatchTab(watch, tabId);
+  if (!after.active) {
+    throw new Error('Watch tab was switched during capture');
+  }
+  return screenshot;
+}
@@ -0,0 +1,167 @@
+import {
+  AlertState,
+  DetectionConfig,
+  MonitoringConfig,
+  StorageData,
+  Watch,
+  WatchStatus,
+} from './types.js';
+import { createDefaultSchedule } from './schedule.js';
+import {
+  DEFAULT_FAILURE_LIMIT,
+  DEFAULT_PROBLEM_SELECTORS,
+  watchProblems,
+} from './health.js';
+import { DEFAULT_CAPTURE_RETENTION } from './screenshotStore.js';
+
+// Константы
+export const DEFAULT_INTERVAL_MIN = 50;
+export const DEFAULT_INTERVAL_MAX = 120;
+export const DEFAULT_SETTLE_TIME = 1000;
+export const DEFAULT_READY_TIMEOUT = 30_000;
+export const DEFAULT_ACTIVITY_PAUSE = 120;
+export const DEFAULT_ALERT_SUSPEND = 10;
+export const DEFAULT_CHANGE_THRESHOLD = 5;
+export const DEFAULT_CHANNEL_TOLERANCE = 30;
+export const DEFAULT_ALERT_COOLDOWN = 15;
+export const DEFAULT_REARM_DELTA = 20;
+
+// Очередь записи: проверки разных наблюдений идут параллельно,
+// поэтому read-modify-write массива watches выполняем строго по одному
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+// Дефолтные настройки мониторинга
+export function createDefaultMonitoring(): MonitoringConfig {
+  return {
+    isActive: false,
+    intervalMin: DEFAULT_INTERVAL_MIN,
+    intervalMax: DEFAULT_INTERVAL_MAX,
+    autoRefresh: true,
+    fullPage: false,
+    settleTime: DEFAULT_SETTLE_TIME,
+    readyTimeout: DEFAULT_READY_TIMEOUT,
+    readySelector: '',
+    activityPause: DEFAULT_ACTIVITY_PAUSE,
+    alertSuspend: DEFAULT_ALERT_SUSPEND,
+    failureLimit: DEFAULT_FAILURE_LIMIT,
+    problemTexts: [],
+    problemSelectors: DEFAULT_PROBLEM_SELECTORS,
+    captureRetention: DEFAULT_CAPTURE_RETENTION,
+    schedule: createDefaultSchedule(),
+  };
+}
+
+// Дефолтные настройки обнаружения: визуальное сравнение
+export function createDefaultDetection(): DetectionConfig {
+  return {
+    mode: 'visual',
+    selector: '',
+    rules: [],
+    slotSelector: '',
+    slotConditions: [],
+    algorithm: 'pixel',
+    compareScale: 1,
+    threshold: DEFAULT_CHANGE_THRESHOLD,
+    tolerance: DEFAULT_CHANNEL_TOLERANCE,
+    cooldownMinutes: DEFAULT_ALERT_COOLDOWN,
+    rearmDelta: DEFAULT_REARM_DELTA,
+    notifyRecovery: true,
+  };
+}
+
+// Начальное состояние оповещений: страница совпадает с эталоном
+export function createAlertState(): AlertState {
+  return { phase: 'baseline' };
+}
+
+// Все наблюдения
+export async function getWatches(): Promise<Watch[]> {
+  const data = (await chrome.storage.local.get(
+    'watches'
+  )) as Partial<StorageData>;
+
+  // Неполные записи прошлых версий дополняет миграция при обновлении
+  return data.watches || [];
+}
+
+// Одно наблюдение по id
+export async function getWatch(id: string): Promise<Watch | undefined> {
+  const watches = await getWatches();
+  return watches.find((watch) => watch.id === id);
+}
+
+// Атомарное изменение списка наблюдений
+export function updateWatches(
+  update: (watches: Watch[]) => Watch[]
+): Promise<Watch[]> {
+  const result = writeQueue.then(async () => {
+    const watches = update(await getWatches());
+    await chrome.storage.local.set({ watches });
+    return watches;
+  });
+  writeQueue = result.catch(() => undefined);
+  return result;
+}
+
+// Атомарное изменение одного наблюдения
+export async function updateWatch(
+  id: string,
+  update: (watch: Watch) => Watch
+): Promise<Watch | undefined> {
+  let updated: Watch | undefined;
+  await updateWatches((watches) =>
+    watches.map((watch) => {
+      if (watch.id !== id) return watch;
+      updated = update(watch);
+      return updated;
+    })
+  );
+  return updated;
+}
+
+// Новое наблюдение (уведомляет во все каналы, пока не настроено иначе)
+export function createWatch(
+  name: string,
+  url: string,
+  channelIds: string[] = []
+): Watch {
+  return {
+    id: crypto.randomUUID(),
+    name,
+    url,
+    monitoring: createDefaultMonitoring(),
+    detection: createDefaultDetection(),
+    channelIds,
+    alertState: createAlertState(),
+  };
+}
+
+// Хватает ли наблюдению данных для проверок
+export function canMonitor(watch: Watch): boolean {
+  if (watch.detection.mode === 'slots') {
+    return !!watch.detection.slotSelector;
+  }
+  if (watch.detection.mode !== 'visual') {
+    return watch.detection.rules.length > 0;
+  }
+  return !!watch.reference;
+}
+
+// Лёгкая версия наблюдения для popup
+export function toWatchStatus(watch: Watch): WatchStatus {
+  return {
+    id: watch.id,
+    name: watch.name,
+    url: watch.url,
+    hasReference: !!watch.reference,
+    ready: canMonitor(watch),
+    monitoring: watch.monitoring,
+    detection: watch.detection,
+    channelIds: watch.channelIds,
+    alertState: watch.alertState,
+    ...(watch.calibration && { calibration: watch.calibration }),
+    baselineCount: watch.reference?.baselines?.length ?? 0,
+    ...(watch.learning && { learning: watch.learning }),
+    problems: watchProblems(watch, Date.now()),
+  };
+}
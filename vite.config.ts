@@ -9,6 +9,11 @@ export default defineConfig({
       input: {
         background: resolve(__dirname, 'src/background.ts'),
         popup: resolve(__dirname, 'src/popup.ts'),
+        offscreen: resolve(__dirname, 'src/offscreen.ts'),
+        historyPage: resolve(__dirname, 'src/historyPage.ts'),
+        options: resolve(__dirname, 'src/options.ts'),
+        galleryPage: resolve(__dirname, 'src/galleryPage.ts'),
+        activity: resolve(__dirname, 'src/activity.ts'),
       },
       output: {
         entryFileNames: '[name].js',